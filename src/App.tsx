@@ -2,22 +2,41 @@
  * MapItOut Main Application Component - Simplified
  * 
  * This is the root component of the MapItOut tree mapping application.
- * Provides a full viewport canvas with floating toolbar interface.
+ * Provides a full viewport canvas with floating toolbar interface,
+ * between the sidebar for switching saved maps and the selected node's details panel.
  * 
  * Update when: Modifying application structure, adding new global features, or changing layout.
  */
 
 import { MapCanvas } from './components/MapCanvas';
+import { DocumentSidebar } from './components/ui/DocumentSidebar';
+import { NodeDetailsPanel } from './components/ui/NodeDetailsPanel';
+import { ExportDialog } from './components/ui/ExportDialog';
+import { DiagramDialog } from './components/ui/DiagramDialog';
+import { CommandPalette } from './components/ui/CommandPalette';
+import { KeybindingsDialog } from './components/ui/KeybindingsDialog';
 
 function App() {
   return (
     <div className="min-h-screen bg-slate-900 text-white relative">
-      <div className="flex flex-col h-screen">
+      <div className="flex h-screen">
+        {/* Saved maps */}
+        <DocumentSidebar />
+
         {/* Main Canvas Area */}
         <main className="flex-1 relative overflow-hidden">
           <MapCanvas />
         </main>
+
+        {/* Note, links and checkbox of the selected node */}
+        <NodeDetailsPanel />
       </div>
+
+      {/* Modal dialogs */}
+      <ExportDialog />
+      <DiagramDialog />
+      <CommandPalette />
+      <KeybindingsDialog />
     </div>
   );
 }
@@ -0,0 +1,403 @@
+/**
+ * MapItOut Built-in Commands
+ *
+ * This module registers the app's own commands: node editing, structure, style and content,
+ * selection, undo/redo, collapsing, view, layout, edge style and theme, search, and files.
+ * Default shortcuts are declared here next to each command; users can rebind
+ * them through the keymap.
+ *
+ * Update when: Adding built-in actions or changing their default shortcuts.
+ */
+
+import type { Node } from '../types';
+import type { NavigationDirection } from '../utils/spatial-navigation';
+import { useMapStore } from '../stores/map-store';
+import { useUIStore } from '../stores/ui-store';
+import { useDocumentsStore } from '../stores/documents-store';
+import { viewCommands } from '../hooks/use-view-commands';
+import { getDisplayedMap } from '../hooks/use-displayed-map';
+import { fileCommands } from '../hooks/use-file-commands';
+import { getLayoutDefinition, getLayoutDefinitions } from '../utils/layout-engines';
+import { findNodeInDirection } from '../utils/spatial-navigation';
+import { EDGE_STYLE_OPTIONS } from '../utils/connection-renderer';
+import { getThemes } from '../utils/themes';
+import { NODE_WIDTH_OPTIONS } from '../utils/node-metrics';
+import { findRootNode } from '../utils/tree-operations';
+import { getMapFormats } from '../utils/formats';
+import { registerCommand } from './registry';
+
+// The search panel's input, focused by the search command
+export const SEARCH_INPUT_ID = 'map-search-input';
+// The details panel's tag input, focused by the edit tags command
+export const TAG_INPUT_ID = 'node-tag-input';
+
+const getMap = useMapStore.getState;
+const getUI = useUIStore.getState;
+
+const getSelectedNode = (): Node | undefined => {
+  const { nodes, selectedId } = getMap();
+  return selectedId ? nodes.get(selectedId) : undefined;
+};
+
+const hasSelection = () => getSelectedNode() !== undefined;
+const hasSelectedChild = () => Boolean(getSelectedNode()?.parent);
+const hasNodes = () => getMap().nodes.size > 0;
+
+/**
+ * Run an action on the selected node, if there is one.
+ */
+const onSelection = (action: (node: Node) => void) => () => {
+  const node = getSelectedNode();
+  if (node) action(node);
+};
+
+const getSiblings = (node: Node) => (node.parent ? getMap().nodes.get(node.parent)?.children ?? [] : []);
+
+// --- Node editing and structure ---
+
+registerCommand({
+  id: 'node.createChild', label: 'Create child', category: 'Node', keys: ['Tab'],
+  when: () => hasSelection() || !hasNodes(),
+  run: () => {
+    const { selectedId, createNode } = getMap();
+    if (selectedId) {
+      createNode(selectedId);
+    } else {
+      createNode('', 'Root Node');
+    }
+  },
+});
+registerCommand({
+  id: 'node.createSibling', label: 'Create sibling', category: 'Node', keys: ['Enter'],
+  when: hasSelectedChild,
+  run: onSelection(node => node.parent && getMap().createNode(node.parent)),
+});
+registerCommand({
+  id: 'node.edit', label: 'Edit text', category: 'Node', keys: ['Shift+Space'],
+  when: hasSelection,
+  run: onSelection(node => getUI().startEditing(node.id)),
+});
+registerCommand({
+  id: 'node.delete', label: 'Delete node and descendants', category: 'Node', keys: ['Delete', 'Backspace'],
+  when: hasSelection,
+  run: onSelection(node => getMap().deleteNode(node.id)),
+});
+registerCommand({
+  id: 'node.toggleCollapsed', label: 'Collapse / expand', category: 'Node', keys: ['Space'],
+  when: () => (getSelectedNode()?.children.length ?? 0) > 0,
+  run: onSelection(node => getMap().toggleCollapsed(node.id)),
+});
+registerCommand({
+  id: 'node.outdent', label: 'Outdent', category: 'Node', keys: ['Shift+Tab', 'Alt+ArrowLeft'],
+  when: hasSelectedChild,
+  run: onSelection(node => getMap().promoteNode(node.id)),
+});
+registerCommand({
+  id: 'node.indent', label: 'Indent under previous sibling', category: 'Node', keys: ['Alt+ArrowRight'],
+  when: hasSelectedChild,
+  run: onSelection(node => getMap().demoteNode(node.id)),
+});
+registerCommand({
+  id: 'node.moveUp', label: 'Move up among siblings', category: 'Node', keys: ['Alt+ArrowUp'],
+  when: hasSelectedChild,
+  run: onSelection(node => getMap().reorderChild(node.id, getSiblings(node).indexOf(node.id) - 1)),
+});
+registerCommand({
+  id: 'node.moveDown', label: 'Move down among siblings', category: 'Node', keys: ['Alt+ArrowDown'],
+  when: hasSelectedChild,
+  run: onSelection(node => getMap().reorderChild(node.id, getSiblings(node).indexOf(node.id) + 1)),
+});
+
+// --- Node style ---
+
+registerCommand({
+  id: 'node.style', label: 'Style node…', category: 'Node', keys: ['Alt+S'],
+  when: hasSelection,
+  run: () => getUI().openDialog('style'),
+});
+registerCommand({
+  id: 'node.toggleBold', label: 'Bold text', category: 'Node', keys: ['Ctrl+B'],
+  when: hasSelection,
+  run: onSelection(node => getMap().updateNodeStyle(node.id, { bold: !node.style?.bold })),
+});
+registerCommand({
+  id: 'node.toggleHighlight', label: 'Highlight node', category: 'Node',
+  when: hasSelection,
+  run: onSelection(node => getMap().updateNodeStyle(node.id, { highlight: !node.style?.highlight })),
+});
+registerCommand({
+  id: 'node.clearStyle', label: 'Clear node style', category: 'Node',
+  when: () => Boolean(getSelectedNode()?.style),
+  run: onSelection(node => getMap().updateNodeStyle(node.id, null)),
+});
+
+registerCommand({
+  id: 'node.details', label: 'Show node details (tags, note, links, checkbox)', category: 'Node', keys: ['Alt+N'],
+  run: () => getUI().setDetailsOpen(!getUI().detailsOpen),
+});
+registerCommand({
+  id: 'node.toggleTask', label: 'Check / uncheck task', category: 'Node', keys: ['Ctrl+Enter'],
+  when: hasSelection,
+  // A node without a checkbox gets an unchecked one
+  run: onSelection(node => getMap().updateNodeContent(node.id, { task: node.task === 'todo' ? 'done' : 'todo' })),
+});
+registerCommand({
+  id: 'node.removeTask', label: 'Remove checkbox', category: 'Node',
+  when: () => Boolean(getSelectedNode()?.task),
+  run: onSelection(node => getMap().updateNodeContent(node.id, { task: undefined })),
+});
+registerCommand({
+  id: 'node.editTags', label: 'Edit tags…', category: 'Node', keys: ['Alt+T'],
+  when: hasSelection,
+  run: () => {
+    getUI().setDetailsOpen(true);
+    // The panel may only mount on this render
+    requestAnimationFrame(() => document.getElementById(TAG_INPUT_ID)?.focus());
+  },
+});
+
+// --- Selection ---
+
+const selectSibling = (offset: number) => onSelection(node => {
+  const siblings = getSiblings(node);
+  const target = siblings[siblings.indexOf(node.id) + offset];
+  if (target) getMap().selectNode(target);
+});
+
+// Parent id → the child last navigated up from, so moving back down returns there
+const cameFromChild = new Map<string, string>();
+
+const selectInDirection = (direction: NavigationDirection) => onSelection(node => {
+  const { layoutType, selectNode } = getMap();
+  const { connectionAxis } = getLayoutDefinition(layoutType);
+  // Navigate what the canvas shows, so view filters and revealed search matches count
+  const { nodes, positions } = getDisplayedMap();
+  // Forget a remembered child that was moved away since
+  const remembered = cameFromChild.get(node.id);
+  if (remembered && !node.children.includes(remembered)) cameFromChild.delete(node.id);
+  const targetId = findNodeInDirection(nodes, positions, node.id, direction, {
+    depthAxis: connectionAxis === 'horizontal' ? 'x' : connectionAxis === 'vertical' ? 'y' : null,
+    rememberedChildId: cameFromChild.get(node.id),
+  });
+  if (!targetId) return;
+
+  if (targetId === node.parent) cameFromChild.set(targetId, node.id);
+  selectNode(targetId);
+});
+
+registerCommand({
+  id: 'select.up', label: 'Select node above', category: 'Select', keys: ['ArrowUp'],
+  when: hasSelection,
+  run: selectInDirection('up'),
+});
+registerCommand({
+  id: 'select.down', label: 'Select node below', category: 'Select', keys: ['ArrowDown'],
+  when: hasSelection,
+  run: selectInDirection('down'),
+});
+registerCommand({
+  id: 'select.left', label: 'Select node to the left', category: 'Select', keys: ['ArrowLeft'],
+  when: hasSelection,
+  run: selectInDirection('left'),
+});
+registerCommand({
+  id: 'select.right', label: 'Select node to the right', category: 'Select', keys: ['ArrowRight'],
+  when: hasSelection,
+  run: selectInDirection('right'),
+});
+
+// Structural moves, unbound by default
+registerCommand({
+  id: 'select.previousSibling', label: 'Select previous sibling', category: 'Select',
+  when: hasSelection,
+  run: selectSibling(-1),
+});
+registerCommand({
+  id: 'select.nextSibling', label: 'Select next sibling', category: 'Select',
+  when: hasSelection,
+  run: selectSibling(1),
+});
+registerCommand({
+  id: 'select.parent', label: 'Select parent', category: 'Select',
+  when: hasSelectedChild,
+  run: onSelection(node => node.parent && getMap().selectNode(node.parent)),
+});
+registerCommand({
+  id: 'select.firstChild', label: 'Select first child', category: 'Select',
+  when: hasSelection,
+  // Children of a collapsed node are hidden, so there's nothing to step into
+  run: onSelection(node => {
+    if (node.children.length > 0 && !node.metadata.collapsed) getMap().selectNode(node.children[0]);
+  }),
+});
+registerCommand({
+  id: 'select.root', label: 'Select root', category: 'Select',
+  when: hasNodes,
+  run: () => {
+    const root = findRootNode(getMap().nodes);
+    if (root) getMap().selectNode(root.id);
+  },
+});
+registerCommand({
+  id: 'select.clear', label: 'Clear selection', category: 'Select', keys: ['Escape'],
+  run: () => getMap().selectNode(null),
+});
+
+// --- Undo / redo ---
+
+registerCommand({
+  id: 'edit.undo', label: 'Undo', category: 'Edit', keys: ['Ctrl+Z'],
+  when: () => getMap().history.past.length > 0,
+  run: () => getMap().undo(),
+});
+registerCommand({
+  id: 'edit.redo', label: 'Redo', category: 'Edit', keys: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+  when: () => getMap().history.future.length > 0,
+  run: () => getMap().redo(),
+});
+registerCommand({
+  id: 'edit.resetCanvas', label: 'Reset canvas', category: 'Edit',
+  when: hasNodes,
+  run: () => getMap().setNodes(new Map(), 'Reset canvas', null),
+});
+
+// --- Collapsing (Alt+digits, matched by key position) ---
+
+for (let depth = 1; depth <= 9; depth++) {
+  registerCommand({
+    id: `map.collapseToDepth${depth}`, label: `Collapse to depth ${depth}`, category: 'Map', keys: [`Alt+${depth}`],
+    when: hasNodes,
+    run: () => getMap().collapseToDepth(depth),
+  });
+}
+registerCommand({
+  id: 'map.expandAll', label: 'Expand all', category: 'Map', keys: ['Alt+0'],
+  when: hasNodes,
+  run: () => getMap().expandAll(),
+});
+
+// --- View ---
+
+registerCommand({
+  id: 'view.zoomIn', label: 'Zoom in', category: 'View', keys: ['+', '='],
+  run: viewCommands.zoomIn,
+});
+registerCommand({
+  id: 'view.zoomOut', label: 'Zoom out', category: 'View', keys: ['-'],
+  run: viewCommands.zoomOut,
+});
+registerCommand({
+  id: 'view.resetZoom', label: 'Reset zoom to 100%', category: 'View', keys: ['Ctrl+0'],
+  run: viewCommands.resetZoom,
+});
+registerCommand({
+  id: 'view.zoomToFit', label: 'Zoom to fit', category: 'View', keys: ['Shift+1'],
+  when: hasNodes,
+  run: viewCommands.zoomToFit,
+});
+registerCommand({
+  id: 'view.zoomToSelection', label: 'Zoom to selection', category: 'View', keys: ['Shift+2'],
+  when: hasSelection,
+  run: viewCommands.zoomToSelection,
+});
+registerCommand({
+  id: 'view.centerOnRoot', label: 'Center on root', category: 'View',
+  when: hasNodes,
+  run: viewCommands.centerOnRoot,
+});
+registerCommand({
+  id: 'view.toggleSidebar', label: 'Show / hide maps sidebar', category: 'View',
+  run: () => getUI().setSidebarOpen(!getUI().sidebarOpen),
+});
+registerCommand({
+  id: 'view.search', label: 'Search node text', category: 'View', keys: ['Ctrl+F'], global: true,
+  run: () => {
+    getUI().openSearch();
+    // Also refocuses the panel if it's already open
+    requestAnimationFrame(() => {
+      const input = document.getElementById(SEARCH_INPUT_ID);
+      if (input instanceof HTMLInputElement) input.select();
+    });
+  },
+});
+registerCommand({
+  id: 'view.tags', label: 'Show / hide tag legend', category: 'View',
+  run: () => getUI().setTagsOpen(!getUI().tagsOpen),
+});
+registerCommand({
+  id: 'view.clearTagFilter', label: 'Show all nodes (clear tag filter)', category: 'View',
+  when: () => getUI().tagFilter.length > 0,
+  run: () => getUI().clearTagFilter(),
+});
+registerCommand({
+  id: 'view.keybindings', label: 'Keyboard shortcuts…', category: 'View',
+  run: () => getUI().openDialog('keybindings'),
+});
+registerCommand({
+  id: 'view.commandPalette', label: 'Command palette', category: 'View', keys: ['Ctrl+K'], global: true,
+  run: () => getUI().openDialog('commands'),
+});
+
+getLayoutDefinitions().forEach(layout => {
+  registerCommand({
+    id: `layout.${layout.key}`, label: `Layout: ${layout.label}`, category: 'Layout',
+    run: () => getMap().setLayoutType(layout.key),
+  });
+});
+
+EDGE_STYLE_OPTIONS.forEach(option => {
+  registerCommand({
+    id: `edges.${option.key}`, label: `Edges: ${option.label}`, category: 'Layout',
+    run: () => getMap().setEdgeStyle(option.key),
+  });
+});
+
+getThemes().forEach(theme => {
+  registerCommand({
+    id: `theme.${theme.key}`, label: `Theme: ${theme.label}`, category: 'Layout',
+    run: () => getMap().setTheme(theme.key),
+  });
+});
+
+NODE_WIDTH_OPTIONS.forEach(option => {
+  registerCommand({
+    id: `nodeWidth.${option.key}`, label: `Node width: ${option.label}`, category: 'Layout',
+    run: () => getMap().setNodeWidth(option.width),
+  });
+});
+
+// --- Files ---
+
+registerCommand({
+  id: 'file.newMap', label: 'New map', category: 'File',
+  run: () => useDocumentsStore.getState().createDocument(),
+});
+registerCommand({
+  id: 'file.save', label: 'Save to file', category: 'File', keys: ['Ctrl+S'],
+  when: hasNodes,
+  run: fileCommands.saveMapToFile,
+});
+registerCommand({
+  id: 'file.open', label: 'Open file…', category: 'File', keys: ['Ctrl+O'],
+  run: () => void fileCommands.openMapFromFile(),
+});
+registerCommand({
+  id: 'file.export', label: 'Export PNG, SVG or PDF…', category: 'File',
+  when: hasNodes,
+  run: () => getUI().openDialog('export'),
+});
+registerCommand({
+  id: 'file.diagram', label: 'Copy as Mermaid or DOT…', category: 'File',
+  when: hasNodes,
+  run: () => getUI().openDialog('diagram'),
+});
+
+getMapFormats()
+  .filter(format => format.write && !format.diagram && format.key !== 'mapitout')
+  .forEach(format => {
+    registerCommand({
+      id: `file.exportAs.${format.key}`, label: `Export as ${format.label}`, category: 'File',
+      when: hasNodes,
+      run: () => fileCommands.exportMap(format.key),
+    });
+  });
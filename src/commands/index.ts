@@ -0,0 +1,13 @@
+/**
+ * MapItOut Commands Index
+ *
+ * This file exports the command registry, keymap and shortcut helpers, and loads the
+ * built-in commands so they're registered before anything looks them up.
+ *
+ * Update when: Adding command modules.
+ */
+
+export * from './registry';
+export * from './keymap';
+export * from './shortcuts';
+export { SEARCH_INPUT_ID, TAG_INPUT_ID } from './builtin-commands';
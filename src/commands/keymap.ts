@@ -0,0 +1,46 @@
+/**
+ * MapItOut Keymap
+ *
+ * This module resolves which shortcuts are active: a command's keys from the
+ * user's keymap if they rebound it, its registered defaults otherwise.
+ * It also finds which command a key press runs and which shortcuts are claimed
+ * by more than one command.
+ *
+ * Update when: Changing how shortcuts resolve to commands.
+ */
+
+import type { Command } from '../types';
+import { useKeymapStore } from '../stores/keymap-store';
+import { getCommands, isCommandEnabled } from './registry';
+
+type Bindings = Record<string, string[]>;
+
+/**
+ * The shortcuts currently bound to a command.
+ */
+export function getCommandKeys(command: Command, bindings: Bindings = useKeymapStore.getState().bindings): string[] {
+  return bindings[command.id] ?? command.keys ?? [];
+}
+
+/**
+ * The command a shortcut runs. If several claim it, the first registered one that applies
+ * right now wins, so a disabled command doesn't block another; if none applies, the first.
+ */
+export function findCommandForShortcut(shortcut: string): Command | undefined {
+  const { bindings } = useKeymapStore.getState();
+  const claimants = getCommands().filter(command => getCommandKeys(command, bindings).includes(shortcut));
+  return claimants.find(isCommandEnabled) ?? claimants[0];
+}
+
+/**
+ * Shortcuts bound to more than one command, with the commands claiming each.
+ */
+export function findShortcutConflicts(bindings: Bindings = useKeymapStore.getState().bindings): Map<string, Command[]> {
+  const owners = new Map<string, Command[]>();
+  getCommands().forEach(command => {
+    getCommandKeys(command, bindings).forEach(shortcut => {
+      owners.set(shortcut, [...(owners.get(shortcut) ?? []), command]);
+    });
+  });
+  return new Map(Array.from(owners).filter(([, commands]) => commands.length > 1));
+}
@@ -0,0 +1,43 @@
+/**
+ * MapItOut Command Registry
+ *
+ * This module lists every action the app can run by name. The command palette
+ * shows registered commands and the keyboard hook runs them by shortcut (see
+ * keymap.ts), so a feature adds its actions and default keys with
+ * registerCommand() instead of another keyboard handler.
+ *
+ * Update when: Changing how commands are looked up, enabled or run.
+ */
+
+import type { Command } from '../types';
+
+const commandRegistry = new Map<string, Command>();
+
+/**
+ * Register a command. Registering an existing id replaces that command.
+ */
+export function registerCommand(command: Command) {
+  commandRegistry.set(command.id, command);
+}
+
+export function getCommands(): Command[] {
+  return Array.from(commandRegistry.values());
+}
+
+export function getCommand(id: string): Command | undefined {
+  return commandRegistry.get(id);
+}
+
+export function isCommandEnabled(command: Command): boolean {
+  return command.when?.() ?? true;
+}
+
+/**
+ * Run a command if it applies right now. Returns whether it ran.
+ */
+export function runCommand(id: string): boolean {
+  const command = commandRegistry.get(id);
+  if (!command || !isCommandEnabled(command)) return false;
+  command.run();
+  return true;
+}
@@ -0,0 +1,71 @@
+/**
+ * MapItOut Keyboard Shortcuts
+ *
+ * This module turns keyboard events into shortcut strings like `Ctrl+Shift+Z`,
+ * the form commands declare their keys in:
+ * - Modifiers come first in the order Ctrl, Alt, Shift (Cmd counts as Ctrl)
+ * - Letters and digits are named by key position when a modifier changes the
+ *   character (Alt on macOS, Shift on digits), so `Alt+1` and `Shift+1` work
+ * - Symbols such as `+` and `=` are matched as typed, without Shift
+ *
+ * Update when: Changing how shortcuts are written, matched or displayed.
+ */
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock']);
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Delete: 'Del',
+};
+
+/**
+ * Whether an event target is a text field, which keeps its own keys and clipboard.
+ */
+export const isTextTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+/**
+ * The shortcut string for a key press, or null for a lone modifier.
+ */
+export function eventToShortcut(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+
+  let key = e.key;
+  let usesShift = true;
+  if (/^[a-z]$/i.test(key)) {
+    key = key.toUpperCase();
+  } else if (/^Key[A-Z]$/.test(e.code)) {
+    key = e.code.slice('Key'.length);
+  } else if (/^Digit[0-9]$/.test(e.code)) {
+    key = e.code.slice('Digit'.length);
+  } else if (key === ' ') {
+    key = 'Space';
+  } else if (key.length === 1) {
+    // Shift is how the symbol was typed, not part of the shortcut
+    usesShift = false;
+  }
+
+  return [
+    e.ctrlKey || e.metaKey ? 'Ctrl' : '',
+    e.altKey ? 'Alt' : '',
+    e.shiftKey && usesShift ? 'Shift' : '',
+    key,
+  ].filter(Boolean).join('+');
+}
+
+/**
+ * A shortcut as shown to users, e.g. `Alt+ArrowUp` → `Alt+↑`.
+ */
+export function formatShortcut(shortcut: string): string {
+  // The key is everything after the last separator, so `Ctrl++` keeps its `+`
+  const split = shortcut.length > 1 ? shortcut.lastIndexOf('+', shortcut.length - 2) : -1;
+  const modifiers = split === -1 ? '' : shortcut.slice(0, split + 1);
+  const key = shortcut.slice(split + 1);
+  return modifiers + (KEY_LABELS[key] ?? key);
+}
@@ -1,7 +1,8 @@
 /**
  * MapCanvas.tsx - Simplified
  *
- * Main container for the MapItOut tree map. Renders nodes at calculated positions.
+ * Main container for the MapItOut tree map. Renders nodes at calculated positions
+ * and draws parent→child connections on a canvas layer underneath them.
  * Simplified to focus on basic rendering and keyboard interactions.
  *
  * Update when: Modifying canvas structure or basic rendering logic.
@@ -12,24 +13,45 @@ import { useMapStore } from '../stores/map-store';
 import { useUIStore } from '../stores/ui-store';
 import { NodeComponent } from './nodes/NodeComponent';
 import { LayoutSwitcher } from './ui/LayoutSwitcher';
-import { useKeyboardNavigation } from '../hooks';
-import { calculateLayout } from '../utils/layout-engines';
+import { HistoryControls } from './ui/HistoryControls';
+import { EdgeStyleSwitcher } from './ui/EdgeStyleSwitcher';
+import { ThemeSwitcher } from './ui/ThemeSwitcher';
+import { NodeWidthSwitcher } from './ui/NodeWidthSwitcher';
+import { CollapseControls } from './ui/CollapseControls';
+import { ZoomControls } from './ui/ZoomControls';
+import { ExportFormatMenu } from './ui/ExportFormatMenu';
+import { FileControls } from './ui/FileControls';
+import { SearchPanel } from './ui/SearchPanel';
+import { TagLegend } from './ui/TagLegend';
+import { NodeStylePopover } from './ui/NodeStylePopover';
+import { ShortcutHelp } from './ui/ShortcutHelp';
+import { useDisplayedMap, useFileCommands, useKeyboardNavigation, useNodeDrag, useOutlineClipboard, useViewCommands } from '../hooks';
+import { drawConnections } from '../utils/connection-renderer';
+import { getTaskProgress } from '../utils/node-content';
+import { getTheme } from '../utils/themes';
+import { centerViewOn, zoomAtPoint } from '../utils/viewport';
+import { runCommand } from '../commands';
+
+// Wheel deltas are converted to zoom factors with these sensitivities
+const WHEEL_ZOOM_SPEED = 0.0015;
+const PINCH_ZOOM_SPEED = 0.01;
 
 export const MapCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const { nodes, selectedId, layoutType, createNode } = useMapStore();
-  const { isEditing } = useUIStore();
+  const { nodes, selectedId, layoutType, edgeStyle, theme, createNode } = useMapStore();
+  const themeDef = getTheme(theme);
+  const { isEditing, view, viewportSize: canvasSize, dialog, setView, setViewportSize } = useUIStore();
   const [helpOpen, setHelpOpen] = useState(false);
-  // Panning state (no more mode toggle)
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [isFileOver, setIsFileOver] = useState(false);
+  const { importMapFiles } = useFileCommands();
+  const { centerOnRoot } = useViewCommands();
+  // Panning state (no more mode toggle); pan and zoom live in the UI store's view
   const [isPanning, setIsPanning] = useState(false);
   const panStart = useRef<{ x: number; y: number } | null>(null);
   const mouseStart = useRef<{ x: number; y: number } | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const dragOffset = useRef({ x: 0, y: 0 });
-  
-  // Dynamic canvas sizing
-  const [canvasSize, setCanvasSize] = useState({ width: 1600, height: 800 });
 
   // Create initial node if none exist
   React.useEffect(() => {
@@ -38,23 +60,51 @@ export const MapCanvas: React.FC = () => {
     }
   }, [nodes.size, createNode]);
 
-  // Handle window resize to update canvas size
+  // Track the canvas area's size (it shrinks when the document sidebar is open)
   React.useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
     const updateCanvasSize = () => {
-      setCanvasSize({
-        width: window.innerWidth,
-        height: window.innerHeight
+      setViewportSize({
+        width: root.clientWidth,
+        height: root.clientHeight
       });
     };
 
     // Set initial size
     updateCanvasSize();
 
-    // Add resize listener
-    window.addEventListener('resize', updateCanvasSize);
+    // Follow window resizes and sidebar toggles
+    const observer = new ResizeObserver(updateCanvasSize);
+    observer.observe(root);
 
     // Cleanup
-    return () => window.removeEventListener('resize', updateCanvasSize);
+    return () => observer.disconnect();
+  }, [setViewportSize]);
+
+  // Wheel / trackpad pinch zoom centered on the cursor.
+  // Registered natively because React's wheel listener is passive and can't preventDefault.
+  React.useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if ((e.target as HTMLElement).closest('.z-50')) return;
+      e.preventDefault();
+
+      // Trackpad pinches arrive as wheel events with ctrlKey set
+      const speed = e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+      const rect = root.getBoundingClientRect();
+      const { view, setView } = useUIStore.getState();
+      setView(zoomAtPoint(view, Math.exp(-e.deltaY * speed), {
+        x: e.clientX - rect.left,
+        y: e.clientY - rect.top,
+      }));
+    };
+
+    root.addEventListener('wheel', handleWheel, { passive: false });
+    return () => root.removeEventListener('wheel', handleWheel);
   }, []);
 
   // Step 3: Panning logic - middle mouse button only
@@ -66,7 +116,7 @@ export const MapCanvas: React.FC = () => {
     if ((e.target as HTMLElement).closest('.node-base,.z-50')) return;
     
     setIsPanning(true);
-    panStart.current = { ...pan };
+    panStart.current = { x: view.x, y: view.y };
     mouseStart.current = { x: e.clientX, y: e.clientY };
     document.body.style.cursor = 'grabbing';
   };
@@ -78,11 +128,11 @@ export const MapCanvas: React.FC = () => {
     const dy = e.clientY - mouseStart.current.y;
     
     // Update pan state directly for immediate visual feedback
-    const newPan = {
+    setView({
+      ...view,
       x: panStart.current.x + dx,
       y: panStart.current.y + dy
-    };
-    setPan(newPan);
+    });
   };
 
   const handleMouseUp = () => {
@@ -107,152 +157,20 @@ export const MapCanvas: React.FC = () => {
     };
   }, [isPanning]);
 
-  // Centering utility - always centers on root node
-  const centerOnRoot = () => {
-    // Find root node (node with no parent)
-    const rootNode = Array.from(nodes.values()).find(node => node.parent === null);
-    if (!rootNode) return;
-
-    // Get root position from layout engine
-    const positions = calculateLayout(nodes, layoutType);
-    const rootPosition = positions.get(rootNode.id);
-    if (!rootPosition) return;
-
-    // Calculate canvas center (half of current canvas dimensions)
-    const canvasCenter = { 
-      x: canvasSize.width / 2, 
-      y: canvasSize.height / 2 
-    };
-
-    // Calculate required pan offset to center root node
-    const newPan = {
-      x: canvasCenter.x - rootPosition.x,
-      y: canvasCenter.y - rootPosition.y
-    };
-
-    setPan(newPan);
-  };
-
   // Step 2: Add Mouse/Hand toggle button to toolbar
   const FloatingToolbar = () => {
-    const { nodes, selectedId } = useMapStore();
+    const { nodes, selectedId, setNodes, deleteNode } = useMapStore();
+    const { openDialog, detailsOpen, setDetailsOpen, tagsOpen, setTagsOpen, tagFilter } = useUIStore();
 
     const handleDeleteNode = () => {
       if (!selectedId) return;
       
       // Delete the selected node and all its descendants
-      const deleteNodeAndChildren = (nodeId: string) => {
-        const node = nodes.get(nodeId);
-        if (!node) return;
-        
-        // Recursively delete all children first
-        node.children.forEach(childId => {
-          deleteNodeAndChildren(childId);
-        });
-        
-        // Remove from parent's children array
-        if (node.parent) {
-          const parent = nodes.get(node.parent);
-          if (parent) {
-            parent.children = parent.children.filter(id => id !== nodeId);
-          }
-        }
-        
-        // Delete the node
-        const newNodes = new Map(nodes);
-        newNodes.delete(nodeId);
-        useMapStore.setState({ nodes: newNodes, selectedId: null });
-      };
-      
-      deleteNodeAndChildren(selectedId);
+      deleteNode(selectedId);
     };
 
     const handleResetCanvas = () => {
-      useMapStore.setState({ nodes: new Map(), selectedId: null });
-    };
-
-    const handleExportPNG = async () => {
-      const canvas = document.querySelector('canvas');
-      if (!canvas) return;
-      
-      try {
-        // Create a temporary canvas for high-quality export
-        const exportCanvas = document.createElement('canvas');
-        const ctx = exportCanvas.getContext('2d');
-        if (!ctx) return;
-        
-        // Set high resolution
-        const scale = 2;
-        exportCanvas.width = canvas.width * scale;
-        exportCanvas.height = canvas.height * scale;
-        
-        // Scale the context
-        ctx.scale(scale, scale);
-        
-        // Draw background
-        ctx.fillStyle = '#0f172a'; // slate-900
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Draw connections
-        ctx.strokeStyle = '#64748b';
-        ctx.lineWidth = 2;
-        
-        nodes.forEach(node => {
-          if (!node.parent) return;
-          
-          const parentPos = calculateLayout(nodes, useMapStore.getState().layoutType).get(node.parent);
-          const childPos = calculateLayout(nodes, useMapStore.getState().layoutType).get(node.id);
-          
-          if (!parentPos || !childPos) return;
-          
-          ctx.beginPath();
-          ctx.moveTo(parentPos.x, parentPos.y);
-          ctx.lineTo(childPos.x, childPos.y);
-          ctx.stroke();
-        });
-        
-        // Draw nodes
-        const positions = calculateLayout(nodes, useMapStore.getState().layoutType);
-        positions.forEach((pos, nodeId) => {
-          const node = nodes.get(nodeId);
-          if (!node) return;
-          
-          // Node background
-          ctx.fillStyle = nodeId === selectedId ? '#1e293b' : '#334155';
-          ctx.strokeStyle = nodeId === selectedId ? '#3b82f6' : '#64748b';
-          ctx.lineWidth = nodeId === selectedId ? 2 : 1;
-          
-          ctx.beginPath();
-          ctx.roundRect(pos.x - pos.width / 2, pos.y - pos.height / 2, pos.width, pos.height, 8);
-          ctx.fill();
-          ctx.stroke();
-          
-          // Node text
-          ctx.fillStyle = 'white';
-          ctx.font = '14px system-ui';
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'middle';
-          ctx.fillText(node.text, pos.x, pos.y);
-        });
-        
-        // Convert to blob and download
-        exportCanvas.toBlob((blob) => {
-          if (!blob) return;
-          
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `mapitout-${Date.now()}.png`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-        }, 'image/png');
-        
-      } catch (error) {
-        console.error('Export failed:', error);
-        alert('Export failed. Please try again.');
-      }
+      setNodes(new Map(), 'Reset canvas', null);
     };
 
     return (
@@ -268,6 +186,22 @@ export const MapCanvas: React.FC = () => {
         {/* Layout switcher */}
         <LayoutSwitcher />
 
+        {/* Edge style switcher */}
+        <EdgeStyleSwitcher />
+
+        {/* Map theme and node width */}
+        <ThemeSwitcher />
+        <NodeWidthSwitcher />
+
+        {/* Collapse to depth / expand all */}
+        <CollapseControls />
+
+        {/* Zoom readout and zoom commands */}
+        <ZoomControls />
+
+        {/* Undo/redo with step counts */}
+        <HistoryControls />
+
         {/* Node count */}
         <span className="text-slate-400 text-sm">
           {nodes.size} nodes
@@ -284,6 +218,31 @@ export const MapCanvas: React.FC = () => {
             Delete Node
           </button>
           
+          <button
+            onClick={() => openDialog('style')}
+            disabled={!selectedId}
+            className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed text-slate-300 hover:text-white px-3 py-1 rounded text-sm font-medium transition-colors"
+            title="Color, shape, icon and emphasis of the selected node (Alt+S)"
+          >
+            🎨 Style
+          </button>
+
+          <button
+            onClick={() => setDetailsOpen(!detailsOpen)}
+            className={`${detailsOpen ? 'bg-blue-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'} px-3 py-1 rounded text-sm font-medium transition-colors`}
+            title="Note, links and checkbox of the selected node (Alt+N)"
+          >
+            📝 Details
+          </button>
+
+          <button
+            onClick={() => setTagsOpen(!tagsOpen)}
+            className={`${tagsOpen || tagFilter.length > 0 ? 'bg-blue-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'} px-3 py-1 rounded text-sm font-medium transition-colors`}
+            title="Tag legend and tag filter"
+          >
+            🏷 Tags
+          </button>
+
           <button
             onClick={handleResetCanvas}
             className="bg-slate-600 hover:bg-slate-700 text-white px-3 py-1 rounded text-sm font-medium transition-colors"
@@ -293,13 +252,28 @@ export const MapCanvas: React.FC = () => {
           </button>
           
           <button
-            onClick={handleExportPNG}
+            onClick={() => openDialog('export')}
             disabled={nodes.size === 0}
             className="bg-green-600 hover:bg-green-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-3 py-1 rounded text-sm font-medium transition-colors"
-            title="Export as high-quality PNG"
+            title="Export the whole map as PNG, SVG or PDF"
           >
-            Export PNG
+            Export…
           </button>
+
+          <button
+            onClick={() => openDialog('diagram')}
+            disabled={nodes.size === 0}
+            className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed text-slate-300 hover:text-white px-3 py-1 rounded text-sm font-medium transition-colors"
+            title="Copy the map as Mermaid or Graphviz DOT code"
+          >
+            Diagram…
+          </button>
+
+          {/* Native file save/open */}
+          <FileControls />
+
+          {/* Markdown / OPML / FreeMind export */}
+          <ExportFormatMenu />
         </div>
         {/* Pan mode toggle */}
         <button
@@ -310,46 +284,92 @@ export const MapCanvas: React.FC = () => {
         >
           🏠 Home
         </button>
+
+        <button
+          onClick={() => runCommand('view.search')}
+          className="px-3 py-1 rounded text-sm font-medium bg-slate-600 hover:bg-slate-700 text-white transition-colors"
+          title="Search node text (Ctrl+F)"
+        >
+          🔍 Search
+        </button>
+
+        <button
+          onClick={() => runCommand('view.commandPalette')}
+          className="px-3 py-1 rounded text-sm font-medium bg-slate-600 hover:bg-slate-700 text-white transition-colors"
+          title="Find and run any command (Ctrl+K)"
+        >
+          ⌘ Commands
+        </button>
         
       </div>
     );
   };
 
-  // Step 4: Apply pan offset to rendering
-  // Calculate positions using layout engine
-  const positions = useMemo(() => {
-    const base = calculateLayout(nodes, useMapStore.getState().layoutType);
-    
-    // Always use base positions - CSS transform handles all pan offset
-    return base;
-  }, [nodes, layoutType, canvasSize]);
+  // What the view filters (tags, search filter mode) leave on the canvas, and its layout;
+  // commands lay out the same nodes. CSS transform handles all pan offset
+  const {
+    nodes: displayNodes,
+    positions,
+    matchIds,
+    searchPattern,
+    searchError,
+    isSearchFiltering: isFiltering,
+  } = useDisplayedMap();
+  const matchSet = useMemo(() => new Set(matchIds), [matchIds]);
+  // Task progress counts the whole map, including collapsed branches
+  const taskProgress = useMemo(() => getTaskProgress(nodes), [nodes]);
+
+  // The style popover sits just below the selected node, in canvas coordinates
+  const selectedPosition = selectedId ? positions.get(selectedId) : undefined;
+  const styleAnchor = selectedPosition && {
+    x: view.x + selectedPosition.x * view.zoom,
+    y: view.y + (selectedPosition.y + selectedPosition.height / 2) * view.zoom + 12,
+  };
 
   // Step 5: Enable keyboard navigation and node actions always
   useKeyboardNavigation();
 
+  // Copy the selection as a Markdown outline, paste outlines under it
+  useOutlineClipboard();
+
+  // Drag-and-drop reparenting, with a ghost of the dragged subtree at its drop location
+  const { preview: dropPreview } = useNodeDrag(containerRef);
+
   // Automatic centering on selected node
   React.useEffect(() => {
     if (!selectedId) return;
 
-    // Get selected node position from layout engine
-    const positions = calculateLayout(nodes, layoutType);
+    // Get selected node position from the displayed layout
     const selectedPosition = positions.get(selectedId);
     if (!selectedPosition) return;
 
-    // Calculate canvas center (half of current canvas dimensions)
-    const canvasCenter = { 
-      x: canvasSize.width / 2, 
-      y: canvasSize.height / 2 
-    };
+    // Pan so the selected node sits in the middle of the canvas at the current zoom
+    const { view, setView } = useUIStore.getState();
+    setView(centerViewOn(view, selectedPosition, canvasSize));
+  }, [selectedId, positions, canvasSize]);
 
-    // Calculate required pan offset to center selected node
-    const newPan = {
-      x: canvasCenter.x - selectedPosition.x,
-      y: canvasCenter.y - selectedPosition.y
-    };
+  // Files dragged in from the desktop open as new maps
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
 
-    setPan(newPan);
-  }, [selectedId, nodes, layoutType, canvasSize]);
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsFileOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leaving into a child element
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsFileOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsFileOver(false);
+    void importMapFiles(Array.from(e.dataTransfer.files));
+  };
 
   // Render to canvas
   React.useEffect(() => {
@@ -358,15 +378,26 @@ export const MapCanvas: React.FC = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    // (No connection lines)
-  }, [positions, nodes]);
+
+    // Match the node container's pan/zoom transform
+    ctx.save();
+    ctx.setTransform(view.zoom, 0, 0, view.zoom, view.x, view.y);
+    drawConnections(ctx, displayNodes, positions, { layoutType, edgeStyle, theme: themeDef });
+    ctx.restore();
+  }, [positions, displayNodes, view, layoutType, edgeStyle, themeDef, canvasSize]);
 
   return (
     <div
-      className="relative w-full h-full bg-slate-900 overflow-hidden"
+      ref={rootRef}
+      className="relative w-full h-full overflow-hidden"
+      style={{ backgroundColor: themeDef.background }}
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      data-layout={layoutType}
       tabIndex={0}
     >
       {/* Canvas for connections */}
@@ -381,12 +412,14 @@ export const MapCanvas: React.FC = () => {
         ref={containerRef} 
         className="absolute inset-0"
         style={{ 
-          transform: `translate(${pan.x}px, ${pan.y}px)` 
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+          transformOrigin: '0 0'
         }}
       >
-        {Array.from(nodes.values()).map((node) => {
+        {Array.from(displayNodes.values()).map((node) => {
           const position = positions.get(node.id);
           if (!position) return null;
+          const isMatch = matchSet.has(node.id);
           return (
             <NodeComponent
               key={node.id}
@@ -394,12 +427,42 @@ export const MapCanvas: React.FC = () => {
               position={position}
               isSelected={node.id === selectedId}
               disableEditing={false} // No longer disabled by panMode
+              highlight={isMatch ? searchPattern : null}
+              isDimmed={isFiltering && !isMatch}
+              progress={taskProgress.get(node.id)}
             />
           );
         })}
+        {/* Ghost preview of a drag in progress */}
+        {dropPreview && Array.from(dropPreview.entries()).map(([id, position]) => (
+          <div
+            key={`ghost-${id}`}
+            className="node-ghost"
+            style={{
+              left: position.x - position.width / 2,
+              top: position.y - position.height / 2,
+              width: position.width,
+              height: position.height,
+            }}
+          >
+            {nodes.get(id)?.text}
+          </div>
+        ))}
       </div>
       {/* Floating toolbar */}
       <FloatingToolbar />
+      {/* Style editor for the selected node */}
+      {dialog === 'style' && styleAnchor && <NodeStylePopover anchor={styleAnchor} />}
+      {/* Tag legend and filter */}
+      <TagLegend shownCount={displayNodes.size} />
+      {/* Ctrl+F search */}
+      <SearchPanel matchIds={matchIds} error={searchError} />
+      {/* File drop hint */}
+      {isFileOver && (
+        <div className="absolute inset-4 z-40 flex items-center justify-center rounded-lg border-2 border-dashed border-blue-400 bg-slate-900/80 text-slate-200 pointer-events-none">
+          Drop .mapitout.json, Markdown, OPML or FreeMind files to open them
+        </div>
+      )}
       {/* Help button and popover */}
       {!isEditing && (
         <div className="absolute bottom-4 right-4 z-50">
@@ -415,16 +478,15 @@ export const MapCanvas: React.FC = () => {
               Help
             </button>
             {helpOpen && (
-              <div className="absolute bottom-12 right-0 w-max bg-slate-800/95 text-slate-200 text-xs px-4 py-3 rounded shadow-xl border border-slate-700 whitespace-nowrap transition-opacity duration-150">
-                <div className="mb-1 font-bold text-white">Keyboard Shortcuts</div>
-                <div>Tab: Create child</div>
-                <div>Enter: Create sibling</div>
-                <div>Shift+Space: Edit node</div>
-                <div>Escape: Clear selection</div>
+              <div className="absolute bottom-12 right-0 w-max max-h-[75vh] overflow-y-auto bg-slate-800/95 text-slate-200 text-xs px-4 py-3 rounded shadow-xl border border-slate-700 whitespace-nowrap transition-opacity duration-150">
+                <ShortcutHelp />
                 <div className="mt-2 font-bold text-white">Mouse Controls</div>
                 <div>Middle mouse: Pan canvas</div>
+                <div>Wheel / pinch: Zoom at cursor</div>
                 <div>Click: Select node</div>
                 <div>Double-click: Edit node</div>
+                <div>Drag node: Reparent or reorder</div>
+                <div>Drop files: Open maps (.mapitout.json, .md, .opml, .mm)</div>
               </div>
             )}
           </div>
@@ -1,8 +1,11 @@
 /**
  * MapItOut Node Component - Simplified
  * 
- * This component renders individual nodes in the tree map with basic styling,
- * selection states, and text editing capabilities.
+ * This component renders individual nodes in the tree map with the map theme's tier colors
+ * and font or the node's own style (colors, shape, icon, emphasis, highlight), selection states,
+ * text editing, drag-and-drop feedback, search highlighting and a collapse badge. Tasks get a
+ * clickable checkbox before the label; notes, links and task progress below show as indicators,
+ * and tags as colored chips along the bottom edge (clicking one filters the map by it).
  * 
  * Update when: Modifying node appearance, adding new interaction behaviors, or changing styling.
  */
@@ -10,14 +13,27 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useMapStore } from '../../stores/map-store';
 import { useUIStore } from '../../stores/ui-store';
-import { getNodeColorInfo } from '../../utils/tier-colors';
-import type { Node, Position } from '../../types';
+import { getNodeColors, hexToRgba } from '../../utils/node-style';
+import { formatTaskProgress, getLinkLabel, TASK_MARKS } from '../../utils/node-content';
+import { getTagColor } from '../../utils/tags';
+import { getTheme } from '../../utils/themes';
+import { getNodeShapeInset, NODE_PADDING_X, NODE_PADDING_Y } from '../../utils/node-metrics';
+import { countDescendants } from '../../utils/tree-operations';
+import { splitByPattern } from '../../utils/search';
+import type { Node, Position, TaskProgress } from '../../types';
+
+const TEXT_SHADOW = '0 1px 2px rgba(0, 0, 0, 0.8)';
+// More tags than this collapse into a "+N" chip
+const MAX_TAG_CHIPS = 3;
 
 interface NodeComponentProps {
   node: Node;
   position: Position;
   isSelected: boolean;
   disableEditing?: boolean;
+  highlight?: RegExp | null;  // Search pattern, passed only to matching nodes
+  isDimmed?: boolean;         // Outside the search filter
+  progress?: TaskProgress;    // Tasks below this node, if any
 }
 
 export const NodeComponent: React.FC<NodeComponentProps> = ({
@@ -25,19 +41,32 @@ export const NodeComponent: React.FC<NodeComponentProps> = ({
   position,
   isSelected,
   disableEditing = false,
+  highlight = null,
+  isDimmed = false,
+  progress,
 }) => {
-  const { updateNode, selectNode, nodes } = useMapStore();
-  const { isEditing, editingNodeId, startEditing, stopEditing } = useUIStore();
+  const { updateNode, updateNodeContent, selectNode, toggleCollapsed, undo, nodes, theme, nodeWidth } = useMapStore();
+  const {
+    isEditing, editingNodeId, drag, startEditing, stopEditing, startDrag, setDetailsOpen, setTagsOpen, toggleTagFilter,
+  } = useUIStore();
   const [editText, setEditText] = useState(node.text);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Keystrokes within one editing session share a merge key, so they undo as one step
+  const editSession = useRef<{ mergeKey: string; changed: boolean } | null>(null);
 
   const isCurrentlyEditing = isEditing && editingNodeId === node.id;
   
-  // Get tier-based color information
-  const colorInfo = getNodeColorInfo(node.id, nodes);
+  // Theme colors by tier; the node's own style overrides them
+  const themeDef = getTheme(theme);
+  const colors = getNodeColors(node, nodes, themeDef);
+  const style = node.style ?? {};
 
   // Focus textarea when editing starts
   useEffect(() => {
+    editSession.current = isCurrentlyEditing
+      ? { mergeKey: `text:${node.id}:${Date.now()}`, changed: false }
+      : null;
+
     if (isCurrentlyEditing && textareaRef.current) {
       setTimeout(() => {
         if (textareaRef.current) {
@@ -51,13 +80,20 @@ export const NodeComponent: React.FC<NodeComponentProps> = ({
         }
       }, 0);
     }
-  }, [isCurrentlyEditing]);
+  }, [isCurrentlyEditing, node.id]);
 
   // Update edit text when node text changes
   useEffect(() => {
     setEditText(node.text);
   }, [node.text]);
 
+  const handleMouseDown = (e: React.MouseEvent) => {
+    // Left button on a non-root node starts a potential drag (the root can't be moved)
+    if (e.button !== 0 || isCurrentlyEditing || !node.parent) return;
+    e.preventDefault(); // Avoid selecting text while dragging
+    startDrag(node.id, { x: e.clientX, y: e.clientY });
+  };
+
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     selectNode(node.id);
@@ -69,8 +105,39 @@ export const NodeComponent: React.FC<NodeComponentProps> = ({
     startEditing(node.id);
   };
 
+  const handleToggleCollapsed = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    toggleCollapsed(node.id);
+  };
+
+  const handleToggleTask = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    updateNodeContent(node.id, { task: node.task === 'done' ? 'todo' : 'done' });
+  };
+
+  const handleShowDetails = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    selectNode(node.id);
+    setDetailsOpen(true);
+  };
+
+  const handleTagClick = (e: React.MouseEvent, tag: string) => {
+    e.stopPropagation();
+    toggleTagFilter(tag);
+    setTagsOpen(true);
+  };
+
+  // Keeps indicator clicks from starting a drag or reaching the node
+  const stopMouseDown = (e: React.MouseEvent) => e.stopPropagation();
+
   const handleTextareaChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setEditText(e.target.value);
+
+    // Apply text live so layout follows along while typing
+    if (editSession.current) {
+      updateNode(node.id, { text: e.target.value }, { mergeKey: editSession.current.mergeKey });
+      editSession.current.changed = true;
+    }
     
     // Auto-resize textarea
     const textarea = e.target;
@@ -79,7 +146,6 @@ export const NodeComponent: React.FC<NodeComponentProps> = ({
   };
 
   const handleTextareaBlur = () => {
-    updateNode(node.id, { text: editText });
     stopEditing();
   };
 
@@ -91,12 +157,14 @@ export const NodeComponent: React.FC<NodeComponentProps> = ({
       } else {
         // Regular Enter: Finish editing
         e.preventDefault();
-        updateNode(node.id, { text: editText });
         stopEditing();
       }
     } else if (e.key === 'Escape') {
       e.preventDefault();
-      setEditText(node.text); // Reset to original text
+      // Reset to original text by undoing this session's edits
+      if (editSession.current?.changed) {
+        undo();
+      }
       stopEditing();
     }
   };
@@ -111,16 +179,42 @@ export const NodeComponent: React.FC<NodeComponentProps> = ({
     zIndex: isSelected ? 10 : 1,
   };
 
+  // Theme or custom colors (the selection border uses the text color so it shows on any background),
+  // and extra padding that keeps text inside pill and ellipse shapes
+  nodeStyle.borderColor = isSelected ? themeDef.textColor : colors.stroke;
+  if (style.shape !== 'underline') nodeStyle.backgroundColor = hexToRgba(colors.fill, colors.fillOpacity);
+  nodeStyle.color = themeDef.textColor;
+  nodeStyle.fontFamily = themeDef.fontFamily;
+  if (themeDef.textShadow) nodeStyle.textShadow = TEXT_SHADOW;
+  const inset = getNodeShapeInset(node, { fontFamily: themeDef.fontFamily, maxWidth: nodeWidth });
+  if (inset.x || inset.y) {
+    nodeStyle.padding = `${NODE_PADDING_Y + inset.y}px ${NODE_PADDING_X + inset.x}px`;
+  }
+  const textClasses = [style.bold ? 'node-text-bold' : '', style.large ? 'node-text-large' : ''].join(' ');
+
+  // Drag-and-drop feedback
+  const isDragSource = drag?.active && drag.nodeId === node.id;
+  const dropTarget = drag?.active && drag.dropTarget?.targetId === node.id ? drag.dropTarget : null;
+  const dropClass = dropTarget
+    ? (dropTarget.valid ? `node-drop-${dropTarget.placement}` : 'node-drop-invalid')
+    : '';
+
   // CSS classes for styling
   const nodeClasses = [
     'node-base',
-    colorInfo.cssClass,
-    isSelected ? 'node-selected' : ''
+    style.shape ? `node-shape-${style.shape}` : '',
+    style.highlight ? 'node-style-highlight' : '',
+    isSelected ? 'node-selected' : '',
+    isDragSource ? 'node-dragging' : '',
+    highlight ? 'node-match' : '',
+    isDimmed ? 'node-dimmed' : '',
+    dropClass,
   ].filter(Boolean).join(' ');
 
   return (
     <div
       style={nodeStyle}
+      onMouseDown={handleMouseDown}
       onClick={handleClick}
       onDoubleClick={handleDoubleClick}
       className={nodeClasses}
@@ -132,14 +226,98 @@ export const NodeComponent: React.FC<NodeComponentProps> = ({
           onChange={handleTextareaChange}
           onBlur={handleTextareaBlur}
           onKeyDown={handleTextareaKeyDown}
-          className="node-textarea"
+          className={`node-textarea ${textClasses}`}
           placeholder="Enter text..."
         />
       ) : (
-        <div className="node-text w-full h-full flex items-center justify-center">
-          {node.text}
+        <div className={`node-text w-full h-full flex items-center justify-center ${textClasses}`}>
+          {/* One inline run (checkbox, icon, then text), so it wraps exactly like the measured label */}
+          <span>
+            {node.task && (
+              <span
+                className="node-task-box"
+                onMouseDown={stopMouseDown}
+                onClick={handleToggleTask}
+                onDoubleClick={(e) => e.stopPropagation()}
+                title={node.task === 'done' ? 'Mark as not done' : 'Mark as done'}
+              >
+                {TASK_MARKS[node.task]}
+              </span>
+            )}
+            {node.task && ' '}
+            {style.icon && `${style.icon} `}
+            <span className={node.task === 'done' ? 'node-task-done' : undefined}>
+              {highlight
+                ? splitByPattern(node.text, highlight).map((segment, i) => (
+                    segment.match
+                      ? <mark key={i} className="node-highlight">{segment.text}</mark>
+                      : <React.Fragment key={i}>{segment.text}</React.Fragment>
+                  ))
+                : node.text}
+            </span>
+          </span>
+        </div>
+      )}
+      {/* Note, link and task progress indicators, pinned to the top corner */}
+      {(node.note || node.links || progress) && (
+        <div className="node-indicators" onMouseDown={stopMouseDown} onDoubleClick={(e) => e.stopPropagation()}>
+          {progress && (
+            <span
+              className={progress.done === progress.total ? 'node-progress-complete' : undefined}
+              title={`${progress.done} of ${progress.total} tasks below are done`}
+            >
+              {formatTaskProgress(progress)}
+            </span>
+          )}
+          {node.note && (
+            <button onClick={handleShowDetails} title={node.note}>📝</button>
+          )}
+          {node.links && (
+            <a
+              href={node.links[0].url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              title={node.links.map(getLinkLabel).join('\n')}
+            >
+              🔗{node.links.length > 1 && node.links.length}
+            </a>
+          )}
         </div>
       )}
+      {/* Tag chips along the bottom edge */}
+      {node.tags && (
+        <div className="node-tags" onMouseDown={stopMouseDown} onDoubleClick={(e) => e.stopPropagation()}>
+          {node.tags.slice(0, MAX_TAG_CHIPS).map(tag => (
+            <button
+              key={tag}
+              className="node-tag-chip"
+              style={{ backgroundColor: getTagColor(tag) }}
+              onClick={(e) => handleTagClick(e, tag)}
+              title={`Show only nodes tagged ${tag}`}
+            >
+              {tag}
+            </button>
+          ))}
+          {node.tags.length > MAX_TAG_CHIPS && (
+            <span className="node-tag-chip bg-slate-600" title={node.tags.slice(MAX_TAG_CHIPS).join(', ')}>
+              +{node.tags.length - MAX_TAG_CHIPS}
+            </span>
+          )}
+        </div>
+      )}
+      {/* Collapse toggle: hidden-descendant count while collapsed, "−" on the selected node otherwise */}
+      {node.children.length > 0 && (node.metadata.collapsed || isSelected) && (
+        <button
+          className="node-collapse-toggle"
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={handleToggleCollapsed}
+          onDoubleClick={(e) => e.stopPropagation()}
+          title={node.metadata.collapsed ? 'Expand (Space)' : 'Collapse (Space)'}
+        >
+          {node.metadata.collapsed ? `+${countDescendants(nodes, node.id)}` : '−'}
+        </button>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
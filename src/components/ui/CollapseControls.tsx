@@ -0,0 +1,47 @@
+/**
+ * Collapse Controls Component
+ *
+ * This component offers map-wide collapse commands: collapse everything
+ * below a chosen depth, or expand all nodes again.
+ *
+ * Update when: Changing the available depths or collapse shortcuts.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+
+const depthOptions = [1, 2, 3, 4, 5];
+
+export const CollapseControls: React.FC = () => {
+  const { collapseToDepth, expandAll } = useMapStore();
+
+  const handleDepthChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const depth = Number(e.target.value);
+    if (depth > 0) collapseToDepth(depth);
+    // Reset so the same depth can be picked again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex items-center space-x-1">
+      <select
+        defaultValue=""
+        onChange={handleDepthChange}
+        className="bg-slate-700 hover:bg-slate-600 text-slate-300 px-2 py-1 rounded text-sm font-medium transition-colors cursor-pointer"
+        title="Collapse all nodes below a depth (Alt+1..9)"
+      >
+        <option value="" disabled>Collapse…</option>
+        {depthOptions.map(depth => (
+          <option key={depth} value={depth}>To depth {depth}</option>
+        ))}
+      </select>
+      <button
+        onClick={expandAll}
+        className="px-2 py-1 rounded text-sm font-medium transition-colors bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white"
+        title="Expand all nodes (Alt+0)"
+      >
+        Expand all
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+/**
+ * Command Palette Component
+ *
+ * This component lists every registered command (Ctrl+K) with its category and
+ * current shortcut from the keymap. Typing fuzzy-filters the list; arrows move
+ * the highlight, Enter runs it and Escape closes. Commands that don't apply
+ * right now are shown dimmed and can't be run.
+ *
+ * Update when: Changing how commands are listed, ranked or run from the palette.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useUIStore } from '../../stores/ui-store';
+import { formatShortcut, getCommandKeys, getCommands, isCommandEnabled } from '../../commands';
+import { fuzzyMatch } from '../../utils/fuzzy-match';
+import type { Command } from '../../types';
+
+interface PaletteEntry {
+  command: Command;
+  enabled: boolean;
+  indices: number[];   // Highlighted label characters
+  score: number;
+  shortcut?: string;   // First active binding
+}
+
+// Label matches rank above matches that needed the category name
+const CATEGORY_MATCH_PENALTY = 10;
+
+const rankCommands = (query: string): PaletteEntry[] => {
+  const entries: PaletteEntry[] = [];
+  getCommands().forEach(command => {
+    const labelMatch = fuzzyMatch(query, command.label);
+    const categoryMatch = labelMatch ? null : fuzzyMatch(query, `${command.category} ${command.label}`);
+    const match = labelMatch ?? (categoryMatch && { score: categoryMatch.score - CATEGORY_MATCH_PENALTY, indices: [] });
+    if (!match) return;
+    entries.push({
+      command,
+      enabled: isCommandEnabled(command),
+      indices: match.indices,
+      score: match.score,
+      shortcut: getCommandKeys(command)[0],
+    });
+  });
+
+  // Best matches first; commands that can run now before ones that can't
+  return entries.sort((a, b) => Number(b.enabled) - Number(a.enabled) || b.score - a.score);
+};
+
+const HighlightedLabel: React.FC<{ label: string; indices: number[] }> = ({ label, indices }) => {
+  const highlighted = new Set(indices);
+  return (
+    <>
+      {Array.from(label).map((char, i) => (
+        highlighted.has(i)
+          ? <span key={i} className="text-amber-300">{char}</span>
+          : <React.Fragment key={i}>{char}</React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export const CommandPalette: React.FC = () => {
+  const { dialog, closeDialog } = useUIStore();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const isOpen = dialog === 'commands';
+  const entries = isOpen ? rankCommands(query) : [];
+
+  // Keep the highlighted row in view while arrowing through the list
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex, query]);
+
+  if (!isOpen) return null;
+
+  const close = () => {
+    setQuery('');
+    setActiveIndex(0);
+    closeDialog();
+  };
+
+  const runEntry = (entry: PaletteEntry | undefined) => {
+    if (!entry?.enabled) return;
+    // Close first so commands that open dialogs aren't closed again
+    close();
+    entry.command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (entries.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + entries.length) % entries.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runEntry(entries[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-24 bg-black/50" onClick={close}>
+      <div
+        className="w-[32rem] max-w-[90vw] bg-slate-800 border border-slate-700 rounded-lg shadow-xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command…"
+          spellCheck={false}
+          className="w-full bg-slate-900 border-b border-slate-700 px-4 py-3 text-sm text-white outline-none"
+        />
+        <div ref={listRef} className="max-h-80 overflow-y-auto py-1">
+          {entries.length === 0 && (
+            <div className="px-4 py-3 text-sm text-slate-400">No matching commands</div>
+          )}
+          {entries.map((entry, i) => (
+            <div
+              key={entry.command.id}
+              data-active={i === activeIndex}
+              onMouseMove={() => i !== activeIndex && setActiveIndex(i)}
+              onClick={() => runEntry(entry)}
+              className={`
+                flex items-center px-4 py-2 text-sm
+                ${i === activeIndex ? 'bg-slate-700' : ''}
+                ${entry.enabled ? 'text-slate-200 cursor-pointer' : 'text-slate-500 cursor-default'}
+              `}
+            >
+              <span className="w-20 shrink-0 text-xs text-slate-500">{entry.command.category}</span>
+              <span className="flex-1 truncate">
+                <HighlightedLabel label={entry.command.label} indices={entry.indices} />
+              </span>
+              {entry.shortcut && (
+                <kbd className="ml-3 px-1.5 py-0.5 rounded bg-slate-900 border border-slate-600 text-xs text-slate-400">
+                  {formatShortcut(entry.shortcut)}
+                </kbd>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+/**
+ * Diagram Dialog Component
+ *
+ * This component previews the map as Mermaid (mindmap or flowchart) or Graphviz
+ * DOT code, ready to copy into docs or download. The code follows the map's
+ * current layout direction.
+ *
+ * Update when: Adding diagram formats or changing how diagram code is offered.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useUIStore } from '../../stores/ui-store';
+import { useFileCommands } from '../../hooks/use-file-commands';
+import { getMapFormats } from '../../utils/formats';
+import type { MapFormatKey } from '../../types';
+
+export const DiagramDialog: React.FC = () => {
+  const { dialog, closeDialog } = useUIStore();
+  // Subscribed so the preview follows edits, layout changes and undo
+  const { nodes } = useMapStore();
+  const { writeMapAs, exportMap } = useFileCommands();
+  const [formatKey, setFormatKey] = useState<MapFormatKey>('mermaid-mindmap');
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  const isOpen = dialog === 'diagram';
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeDialog();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, closeDialog]);
+
+  if (!isOpen) return null;
+
+  const formats = getMapFormats().filter(format => format.diagram);
+  const code = nodes.size > 0 ? writeMapAs(formatKey) ?? '' : '';
+  // "Copied" only describes the code that was copied, not later edits
+  const copied = code !== '' && code === copiedCode;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopiedCode(code);
+    } catch (error) {
+      console.error('Copy failed:', error);
+      alert("Couldn't copy to the clipboard. Select the code and copy it instead.");
+    }
+  };
+
+  const choiceClasses = (active: boolean) => `
+    px-3 py-1 rounded text-sm font-medium transition-colors
+    ${active ? 'bg-blue-500 text-white shadow-md' : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'}
+  `;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={closeDialog}>
+      <div
+        className="w-[36rem] max-w-[90vw] bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-5 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold">Diagram code</h2>
+
+        <div className="flex space-x-2">
+          {formats.map(format => (
+            <button
+              key={format.key}
+              onClick={() => setFormatKey(format.key)}
+              className={choiceClasses(formatKey === format.key)}
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          readOnly
+          value={code}
+          onFocus={e => e.target.select()}
+          spellCheck={false}
+          className="w-full h-72 bg-slate-900 border border-slate-600 rounded p-2 font-mono text-xs text-slate-200 resize-none"
+        />
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={closeDialog}
+            className="px-3 py-1 rounded text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => exportMap(formatKey)}
+            disabled={!code}
+            className="px-3 py-1 rounded text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white disabled:opacity-40 transition-colors"
+          >
+            Download
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={!code}
+            className="px-3 py-1 rounded text-sm font-medium bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white transition-colors"
+          >
+            {copied ? 'Copied ✓' : 'Copy'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
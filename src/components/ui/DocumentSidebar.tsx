@@ -0,0 +1,153 @@
+/**
+ * Document Sidebar Component
+ *
+ * This component lists saved maps, most recently modified first, and lets the
+ * user create, open, rename, duplicate and delete them.
+ * It is open on startup so recent maps are visible right away.
+ *
+ * Update when: Changing document actions or how the map list is ordered.
+ */
+
+import React, { useState } from 'react';
+import { useDocumentsStore } from '../../stores/documents-store';
+import { useUIStore } from '../../stores/ui-store';
+import type { MapDocument } from '../../types';
+
+const formatModified = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+export const DocumentSidebar: React.FC = () => {
+  const {
+    documents,
+    activeId,
+    createDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+    openDocument,
+  } = useDocumentsStore();
+  const { sidebarOpen, setSidebarOpen } = useUIStore();
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const recentDocuments = [...documents].sort((a, b) => b.modified - a.modified);
+
+  const startRename = (doc: MapDocument) => {
+    setRenamingId(doc.id);
+    setDraftTitle(doc.title);
+  };
+
+  const finishRename = () => {
+    if (renamingId) renameDocument(renamingId, draftTitle);
+    setRenamingId(null);
+  };
+
+  const handleDelete = (doc: MapDocument) => {
+    // Deleting a map can't be undone
+    if (window.confirm(`Delete "${doc.title}"? This cannot be undone.`)) {
+      deleteDocument(doc.id);
+    }
+  };
+
+  const actionClasses =
+    'px-1.5 py-0.5 rounded text-xs text-slate-400 hover:text-white hover:bg-slate-600 transition-colors';
+
+  if (!sidebarOpen) {
+    return (
+      <button
+        onClick={() => setSidebarOpen(true)}
+        className="absolute bottom-4 left-4 z-50 px-3 py-1 rounded text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white shadow-lg transition-colors"
+        title="Show maps"
+      >
+        🗂 Maps
+      </button>
+    );
+  }
+
+  return (
+    <aside className="w-64 shrink-0 h-full flex flex-col bg-slate-800 border-r border-slate-700">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+        <span className="font-semibold text-sm">Recent Maps</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => createDocument()}
+            className="px-2 py-1 rounded text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white transition-colors"
+            title="Create a new map"
+          >
+            + New
+          </button>
+          <button
+            onClick={() => setSidebarOpen(false)}
+            className="px-2 py-1 rounded text-sm text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Hide maps"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto py-2">
+        {recentDocuments.map(doc => (
+          <li
+            key={doc.id}
+            className={`group px-4 py-2 cursor-pointer border-l-2 transition-colors ${
+              doc.id === activeId
+                ? 'bg-slate-700 border-blue-500'
+                : 'border-transparent hover:bg-slate-700/50'
+            }`}
+            onClick={() => doc.id !== activeId && openDocument(doc.id)}
+            onDoubleClick={() => startRename(doc)}
+          >
+            {renamingId === doc.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={e => setDraftTitle(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                onClick={e => e.stopPropagation()}
+                className="w-full px-1 py-0.5 rounded bg-slate-900 border border-blue-500 text-sm text-white outline-none"
+              />
+            ) : (
+              <div className="text-sm truncate" title={doc.title}>{doc.title}</div>
+            )}
+            <div className="flex items-center justify-between mt-1">
+              <span className="text-xs text-slate-500">{formatModified(doc.modified)}</span>
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={e => { e.stopPropagation(); startRename(doc); }}
+                  className={actionClasses}
+                  title="Rename"
+                >
+                  ✎
+                </button>
+                <button
+                  onClick={e => { e.stopPropagation(); duplicateDocument(doc.id); }}
+                  className={actionClasses}
+                  title="Duplicate"
+                >
+                  ⧉
+                </button>
+                <button
+                  onClick={e => { e.stopPropagation(); handleDelete(doc); }}
+                  className={actionClasses}
+                  title="Delete"
+                >
+                  🗑
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
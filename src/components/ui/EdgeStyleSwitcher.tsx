@@ -0,0 +1,38 @@
+/**
+ * Edge Style Switcher Component
+ *
+ * This component provides buttons to switch how parent→child connections are drawn.
+ * The choice is stored per map and shared by the canvas and the PNG exporter.
+ *
+ * Update when: Adding new edge styles or modifying edge style switching behavior.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { EDGE_STYLE_OPTIONS } from '../../utils/connection-renderer';
+
+export const EdgeStyleSwitcher: React.FC = () => {
+  const { edgeStyle, setEdgeStyle } = useMapStore();
+
+  return (
+    <div className="flex items-center space-x-1">
+      <span className="text-slate-400 text-sm mr-2">Edges:</span>
+      {EDGE_STYLE_OPTIONS.map((option) => (
+        <button
+          key={option.key}
+          onClick={() => setEdgeStyle(option.key)}
+          className={`
+            flex items-center px-2 py-1 rounded text-sm font-medium transition-colors
+            ${edgeStyle === option.key
+              ? 'bg-blue-500 text-white shadow-md'
+              : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'
+            }
+          `}
+          title={`${option.label}: ${option.description}`}
+        >
+          <span className="text-xs">{option.icon}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
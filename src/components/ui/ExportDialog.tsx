@@ -0,0 +1,213 @@
+/**
+ * Export Dialog Component
+ *
+ * This component exports the whole map (not just the visible area) as a
+ * PNG, a standalone SVG or a printable PDF, in the map's theme or another one,
+ * with background options, PNG scale, and PDF page size, orientation and margins.
+ * Every format renders the same export scene.
+ *
+ * Update when: Adding export formats or export options.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useUIStore } from '../../stores/ui-store';
+import { useDocumentsStore } from '../../stores/documents-store';
+import {
+  buildExportScene,
+  PAGE_SIZES,
+  PNG_SCALES,
+  renderSceneToPdf,
+  renderSceneToPng,
+  renderSceneToSvg,
+} from '../../utils/export';
+import type { PageOrientation, PageSize, PngScale } from '../../utils/export';
+import { getTheme, getThemes } from '../../utils/themes';
+import type { ThemeKey } from '../../types';
+import { downloadBlob, downloadText, toFileStem } from '../../utils/download';
+
+type ExportFormat = 'png' | 'svg' | 'pdf';
+
+const FORMATS: { key: ExportFormat; label: string; description: string }[] = [
+  { key: 'png', label: 'PNG', description: 'Image at 1x, 2x or 4x scale' },
+  { key: 'svg', label: 'SVG', description: 'Scalable vector image' },
+  { key: 'pdf', label: 'PDF', description: 'Single page, for printing' },
+];
+
+const PAGE_SIZE_OPTIONS: { key: PageSize; label: string }[] = [
+  ...Object.entries(PAGE_SIZES).map(([key, size]) => ({ key: key as PageSize, label: size.label })),
+  { key: 'fit', label: 'Fit to map' },
+];
+
+export const ExportDialog: React.FC = () => {
+  const { dialog, closeDialog } = useUIStore();
+  const mapTheme = useMapStore(state => state.theme);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [themeOverride, setThemeOverride] = useState<ThemeKey | null>(null);  // null: the map's theme
+  const [transparent, setTransparent] = useState(false);
+  const [scale, setScale] = useState<PngScale>(2);
+  const [pageSize, setPageSize] = useState<PageSize>('a4');
+  const [orientation, setOrientation] = useState<PageOrientation>('auto');
+  const [marginMm, setMarginMm] = useState(10);
+
+  const isOpen = dialog === 'export';
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeDialog();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, closeDialog]);
+
+  if (!isOpen) return null;
+
+  // PDF pages are paper, so they always get a painted background
+  const canBeTransparent = format !== 'pdf';
+
+  const handleExport = async () => {
+    const { nodes, layoutType, edgeStyle, nodeWidth } = useMapStore.getState();
+    const scene = buildExportScene(nodes, layoutType, edgeStyle, {
+      theme: themeOverride ?? mapTheme,
+      nodeWidth,
+      transparent: canBeTransparent && transparent,
+    });
+    if (!scene) return;
+
+    const { documents, activeId } = useDocumentsStore.getState();
+    const stem = toFileStem(documents.find(doc => doc.id === activeId)?.title ?? 'mapitout');
+
+    try {
+      if (format === 'png') {
+        downloadBlob(await renderSceneToPng(scene, scale), `${stem}.png`);
+      } else if (format === 'svg') {
+        downloadText(renderSceneToSvg(scene), `${stem}.svg`, 'image/svg+xml');
+      } else {
+        downloadBlob(renderSceneToPdf(scene, { pageSize, orientation, marginMm }), `${stem}.pdf`);
+      }
+      closeDialog();
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Export failed. Please try again.');
+    }
+  };
+
+  const choiceClasses = (active: boolean) => `
+    px-3 py-1 rounded text-sm font-medium transition-colors
+    ${active ? 'bg-blue-500 text-white shadow-md' : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'}
+  `;
+  const fieldClasses = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={closeDialog}>
+      <div
+        className="w-96 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-5 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold">Export map</h2>
+
+        <div className="space-y-1">
+          <div className="text-slate-400 text-sm">Format</div>
+          <div className="flex space-x-2">
+            {FORMATS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setFormat(option.key)}
+                className={choiceClasses(format === option.key)}
+                title={option.description}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-slate-400 text-sm">Colors</div>
+          <select
+            value={themeOverride ?? ''}
+            onChange={e => setThemeOverride((e.target.value || null) as ThemeKey | null)}
+            className={`w-full ${fieldClasses}`}
+          >
+            <option value="">Map theme ({getTheme(mapTheme).label})</option>
+            {getThemes().map(option => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+          {canBeTransparent && (
+            <label className="flex items-center space-x-2 pt-1 text-sm text-slate-300">
+              <input type="checkbox" checked={transparent} onChange={e => setTransparent(e.target.checked)} />
+              <span>Transparent background</span>
+            </label>
+          )}
+        </div>
+
+        {format === 'png' && (
+          <div className="space-y-1">
+            <div className="text-slate-400 text-sm">Scale</div>
+            <div className="flex space-x-2">
+              {PNG_SCALES.map(option => (
+                <button key={option} onClick={() => setScale(option)} className={choiceClasses(scale === option)}>
+                  {option}x
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {format === 'pdf' && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1 text-sm">
+              <div className="text-slate-400">Page size</div>
+              <select value={pageSize} onChange={e => setPageSize(e.target.value as PageSize)} className={`w-full ${fieldClasses}`}>
+                {PAGE_SIZE_OPTIONS.map(option => (
+                  <option key={option.key} value={option.key}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <div className="text-slate-400">Orientation</div>
+              <select
+                value={orientation}
+                onChange={e => setOrientation(e.target.value as PageOrientation)}
+                disabled={pageSize === 'fit'}
+                className={`w-full ${fieldClasses} disabled:opacity-40`}
+              >
+                <option value="auto">Auto</option>
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <div className="text-slate-400">Margin (mm)</div>
+              <input
+                type="number"
+                min={0}
+                max={50}
+                value={marginMm}
+                onChange={e => setMarginMm(Math.max(0, Number(e.target.value) || 0))}
+                className={`w-full ${fieldClasses}`}
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-2">
+          <button
+            onClick={closeDialog}
+            className="px-3 py-1 rounded text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-3 py-1 rounded text-sm font-medium bg-green-600 hover:bg-green-700 text-white transition-colors"
+          >
+            Export {format.toUpperCase()}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
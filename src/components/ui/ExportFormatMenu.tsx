@@ -0,0 +1,39 @@
+/**
+ * Export Format Menu Component
+ *
+ * This component downloads the map in one of the registered interchange
+ * formats (Markdown, OPML, FreeMind, ...), picked from a dropdown.
+ *
+ * Update when: Changing how interchange exports are offered in the toolbar.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useFileCommands } from '../../hooks/use-file-commands';
+import { getMapFormats } from '../../utils/formats';
+import type { MapFormatKey } from '../../types';
+
+export const ExportFormatMenu: React.FC = () => {
+  const { nodes } = useMapStore();
+  const { exportMap } = useFileCommands();
+
+  // The native format has its own Save button, diagrams have their own dialog
+  const formats = getMapFormats().filter(format => format.write && !format.diagram && format.key !== 'mapitout');
+
+  return (
+    <select
+      value=""
+      onChange={e => e.target.value && exportMap(e.target.value as MapFormatKey)}
+      disabled={nodes.size === 0}
+      className="px-2 py-1 rounded text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 border-none cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+      title="Download the map in another app's format"
+    >
+      <option value="">⬇ Export as…</option>
+      {formats.map(format => (
+        <option key={format.key} value={format.key}>
+          {format.label} ({format.extensions[0]})
+        </option>
+      ))}
+    </select>
+  );
+};
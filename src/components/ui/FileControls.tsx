@@ -0,0 +1,36 @@
+/**
+ * File Controls Component
+ *
+ * This component saves the current map to a `.mapitout.json` file
+ * and opens map files of any registered format as new maps.
+ *
+ * Update when: Changing the toolbar's save/open actions.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useFileCommands } from '../../hooks/use-file-commands';
+
+export const FileControls: React.FC = () => {
+  const { nodes } = useMapStore();
+  const { saveMapToFile, openMapFromFile } = useFileCommands();
+
+  const buttonClasses =
+    'px-2 py-1 rounded text-sm font-medium transition-colors bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex items-center space-x-1">
+      <button onClick={openMapFromFile} className={buttonClasses} title="Open a map file: MapItOut, Markdown, OPML or FreeMind (Ctrl+O)">
+        📂 Open
+      </button>
+      <button
+        onClick={saveMapToFile}
+        disabled={nodes.size === 0}
+        className={buttonClasses}
+        title="Save to a .mapitout.json file (Ctrl+S)"
+      >
+        💾 Save
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+/**
+ * History Controls Component
+ *
+ * This component shows undo/redo buttons with the number of available steps
+ * and the name of the change each button would revert or reapply.
+ *
+ * Update when: Changing history shortcuts or the toolbar's history indicator.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+
+export const HistoryControls: React.FC = () => {
+  const { history, undo, redo } = useMapStore();
+
+  const nextUndo = history.past[history.past.length - 1];
+  const nextRedo = history.future[history.future.length - 1];
+
+  const buttonClasses =
+    'flex items-center space-x-1 px-2 py-1 rounded text-sm font-medium transition-colors bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-slate-700';
+
+  return (
+    <div className="flex items-center space-x-1">
+      <button
+        onClick={undo}
+        disabled={!nextUndo}
+        className={buttonClasses}
+        title={nextUndo ? `Undo ${nextUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <span>↶</span>
+        <span className="text-xs text-slate-400">{history.past.length}</span>
+      </button>
+      <button
+        onClick={redo}
+        disabled={!nextRedo}
+        className={buttonClasses}
+        title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <span>↷</span>
+        <span className="text-xs text-slate-400">{history.future.length}</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+/**
+ * Keybindings Dialog Component
+ *
+ * This component rebinds keyboard shortcuts. Every command is listed with its
+ * active keys; "+" records the next key press as a new shortcut, "×" removes
+ * one, and Reset goes back to the defaults. A shortcut that already belongs to
+ * another command must be confirmed, which moves it over; shortcuts claimed
+ * twice are flagged in red.
+ *
+ * Update when: Changing how shortcuts are edited.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useUIStore } from '../../stores/ui-store';
+import { useKeymapStore } from '../../stores/keymap-store';
+import {
+  eventToShortcut,
+  findShortcutConflicts,
+  formatShortcut,
+  getCommand,
+  getCommandKeys,
+  getCommands,
+} from '../../commands';
+import type { Command } from '../../types';
+
+interface PendingBinding {
+  commandId: string;
+  shortcut: string;
+  owner: Command;     // Command the shortcut is taken from
+}
+
+export const KeybindingsDialog: React.FC = () => {
+  const { dialog, closeDialog } = useUIStore();
+  const { bindings, setBindings, resetBindings, resetAll } = useKeymapStore();
+  const [filter, setFilter] = useState('');
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingBinding | null>(null);
+
+  const isOpen = dialog === 'keybindings';
+
+  const addBinding = (commandId: string, shortcut: string) => {
+    const command = getCommand(commandId);
+    if (!command) return;
+    const keys = getCommandKeys(command, bindings);
+    if (!keys.includes(shortcut)) setBindings(commandId, [...keys, shortcut]);
+  };
+
+  const removeBinding = (commandId: string, shortcut: string) => {
+    const command = getCommand(commandId);
+    if (!command) return;
+    setBindings(commandId, getCommandKeys(command, bindings).filter(key => key !== shortcut));
+  };
+
+  // While recording, the next key press becomes the shortcut; otherwise Escape closes
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!recordingId) {
+        if (e.key === 'Escape' && !pending) closeDialog();
+        return;
+      }
+
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape' && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+        setRecordingId(null);
+        return;
+      }
+
+      const shortcut = eventToShortcut(e);
+      if (!shortcut) return;
+      setRecordingId(null);
+
+      const owner = getCommands().find(command =>
+        command.id !== recordingId && getCommandKeys(command, bindings).includes(shortcut)
+      );
+      if (owner) {
+        setPending({ commandId: recordingId, shortcut, owner });
+      } else {
+        addBinding(recordingId, shortcut);
+      }
+    };
+    // Capture phase, so recorded keys don't also run their current commands
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
+  if (!isOpen) return null;
+
+  const confirmPending = () => {
+    if (!pending) return;
+    removeBinding(pending.owner.id, pending.shortcut);
+    // Read fresh state: the owner's bindings just changed
+    const command = getCommand(pending.commandId);
+    if (command) {
+      const keys = getCommandKeys(command, useKeymapStore.getState().bindings);
+      useKeymapStore.getState().setBindings(command.id, [...keys, pending.shortcut]);
+    }
+    setPending(null);
+  };
+
+  const conflicts = findShortcutConflicts(bindings);
+  const query = filter.trim().toLowerCase();
+  const commands = getCommands().filter(command =>
+    !query ||
+    `${command.category} ${command.label}`.toLowerCase().includes(query) ||
+    getCommandKeys(command, bindings).some(key => formatShortcut(key).toLowerCase().includes(query))
+  );
+
+  const buttonClasses = 'px-3 py-1 rounded text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={closeDialog}>
+      <div
+        className="w-[40rem] max-w-[90vw] bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-5 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Keyboard shortcuts</h2>
+          <input
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Filter commands or keys…"
+            className="w-56 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+          />
+        </div>
+
+        {pending && (
+          <div className="flex items-center justify-between rounded border border-amber-500/60 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+            <span>
+              {formatShortcut(pending.shortcut)} is used by “{pending.owner.label}”. Move it to “{getCommand(pending.commandId)?.label}”?
+            </span>
+            <span className="flex space-x-2 ml-3 shrink-0">
+              <button onClick={() => setPending(null)} className={buttonClasses}>Cancel</button>
+              <button onClick={confirmPending} className="px-3 py-1 rounded text-sm font-medium bg-amber-600 hover:bg-amber-700 text-white">
+                Move
+              </button>
+            </span>
+          </div>
+        )}
+
+        <div className="max-h-[60vh] overflow-y-auto divide-y divide-slate-700/60">
+          {commands.map(command => {
+            const keys = getCommandKeys(command, bindings);
+            const isCustom = command.id in bindings;
+            const isRecording = recordingId === command.id;
+            return (
+              <div key={command.id} className="flex items-center py-1.5 text-sm">
+                <span className="w-20 shrink-0 text-xs text-slate-500">{command.category}</span>
+                <span className={`flex-1 truncate ${isCustom ? 'text-white' : 'text-slate-300'}`}>{command.label}</span>
+                <span className="flex flex-wrap items-center justify-end gap-1">
+                  {keys.map(key => (
+                    <kbd
+                      key={key}
+                      className={`flex items-center px-1.5 py-0.5 rounded border text-xs ${
+                        conflicts.has(key)
+                          ? 'border-red-500 text-red-300 bg-red-500/10'
+                          : 'border-slate-600 text-slate-300 bg-slate-900'
+                      }`}
+                      title={conflicts.has(key)
+                        ? `Also bound to: ${conflicts.get(key)!.filter(other => other.id !== command.id).map(other => other.label).join(', ')}`
+                        : undefined}
+                    >
+                      {formatShortcut(key)}
+                      <button
+                        onClick={() => removeBinding(command.id, key)}
+                        className="ml-1 text-slate-500 hover:text-white"
+                        title="Remove shortcut"
+                      >
+                        ×
+                      </button>
+                    </kbd>
+                  ))}
+                  <button
+                    onClick={() => {
+                      setPending(null);
+                      setRecordingId(isRecording ? null : command.id);
+                    }}
+                    className={`px-1.5 py-0.5 rounded text-xs ${
+                      isRecording ? 'bg-blue-500 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'
+                    }`}
+                    title="Add a shortcut"
+                  >
+                    {isRecording ? 'Press keys… (Esc cancels)' : '+'}
+                  </button>
+                  {isCustom && (
+                    <button
+                      onClick={() => resetBindings(command.id)}
+                      className="px-1.5 py-0.5 rounded text-xs text-slate-400 hover:text-white hover:bg-slate-700"
+                      title={`Back to the default: ${(command.keys ?? []).map(formatShortcut).join(', ') || 'none'}`}
+                    >
+                      Reset
+                    </button>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-between pt-2">
+          <button
+            onClick={() => {
+              setPending(null);
+              resetAll();
+            }}
+            disabled={Object.keys(bindings).length === 0}
+            className={`${buttonClasses} disabled:opacity-40`}
+          >
+            Reset all to defaults
+          </button>
+          <button onClick={closeDialog} className={buttonClasses}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
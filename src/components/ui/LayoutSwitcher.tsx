@@ -1,21 +1,19 @@
 /**
  * Layout Switcher Component - Simplified
  * 
- * This component provides buttons to switch between the two supported layout types.
+ * This component provides buttons to switch between the registered layout types.
+ * Options come from the layout registry in layout-engines.ts.
  * 
- * Update when: Adding new layout types or modifying layout switching behavior.
+ * Update when: Modifying layout switching behavior.
  */
 
 import React from 'react';
 import { useMapStore } from '../../stores/map-store';
-
-const layoutOptions = [
-  { key: 'center', label: 'Center', icon: '🎯', description: 'Mind map style with center root' },
-  { key: 'top', label: 'Top', icon: '🌳', description: 'Hierarchical tree from top' },
-];
+import { getLayoutDefinitions } from '../../utils/layout-engines';
 
 export const LayoutSwitcher: React.FC = () => {
   const { layoutType, setLayoutType } = useMapStore();
+  const layoutOptions = getLayoutDefinitions();
 
   return (
     <div className="flex items-center space-x-1">
@@ -23,7 +21,7 @@ export const LayoutSwitcher: React.FC = () => {
       {layoutOptions.map((option) => (
         <button
           key={option.key}
-          onClick={() => setLayoutType(option.key as 'center' | 'top')}
+          onClick={() => setLayoutType(option.key)}
           className={`
             flex items-center space-x-1 px-2 py-1 rounded text-sm font-medium transition-colors
             ${layoutType === option.key
@@ -0,0 +1,265 @@
+/**
+ * Node Details Panel Component
+ *
+ * This component edits what the selected node carries besides its text, in a
+ * panel on the right: tags (suggesting the map's existing ones), a checkbox (with
+ * the progress of the tasks below it), a Markdown note, and links. Changes apply
+ * immediately and can be undone; typing in the note undoes as one step per visit to the node.
+ *
+ * Update when: Adding node content fields or changing how they are edited.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useUIStore } from '../../stores/ui-store';
+import { formatTaskProgress, getLinkLabel, getTaskProgress, normalizeUrl, TASK_MARKS } from '../../utils/node-content';
+import { collectTags, getTagColor, normalizeTag } from '../../utils/tags';
+import { TAG_INPUT_ID } from '../../commands';
+import type { TaskState } from '../../types';
+
+const TAG_SUGGESTIONS_ID = 'map-tag-suggestions';
+
+const TASK_OPTIONS: { key: TaskState | null; label: string }[] = [
+  { key: null, label: 'No checkbox' },
+  { key: 'todo', label: `${TASK_MARKS.todo} To do` },
+  { key: 'done', label: `${TASK_MARKS.done} Done` },
+];
+
+export const NodeDetailsPanel: React.FC = () => {
+  const { detailsOpen, setDetailsOpen } = useUIStore();
+  const { nodes, selectedId, updateNodeContent } = useMapStore();
+  const [linkUrl, setLinkUrl] = useState('');
+  const [linkTitle, setLinkTitle] = useState('');
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  // Blank notes aren't stored, so a note that starts with spaces or line breaks lives here until it has text
+  const [noteDraft, setNoteDraft] = useState<string | null>(null);
+  // Note typing shares a merge key until another node is selected
+  const session = useRef(0);
+
+  const node = selectedId ? nodes.get(selectedId) : undefined;
+  const progress = useMemo(
+    () => (detailsOpen && selectedId ? getTaskProgress(nodes).get(selectedId) : undefined),
+    [detailsOpen, nodes, selectedId]
+  );
+  const mapTags = useMemo(() => (detailsOpen ? collectTags(nodes) : []), [detailsOpen, nodes]);
+
+  useEffect(() => {
+    session.current = Date.now();
+    setLinkError(null);
+    setNoteDraft(null);
+  }, [selectedId]);
+
+  if (!detailsOpen) return null;
+
+  // The draft is shown while it matches what's stored; after an undo the stored note wins
+  const storedNote = (note: string) => (note.trim() ? note : undefined);
+  const noteValue = noteDraft !== null && storedNote(noteDraft) === node?.note ? noteDraft : node?.note ?? '';
+
+  const changeNote = (note: string) => {
+    if (!node) return;
+    setNoteDraft(note);
+    // Leading blanks don't change the stored note, so they don't get an undo step either
+    if (storedNote(note) === node.note) return;
+    updateNodeContent(node.id, { note }, { mergeKey: `note:${node.id}:${session.current}` });
+  };
+
+  const addLink = () => {
+    if (!node) return;
+    const url = normalizeUrl(linkUrl);
+    if (!url) {
+      setLinkError('Enter a web address (https://…) or an email address.');
+      return;
+    }
+    const title = linkTitle.trim();
+    updateNodeContent(node.id, { links: [...(node.links ?? []), title ? { url, title } : { url }] });
+    setLinkUrl('');
+    setLinkTitle('');
+    setLinkError(null);
+  };
+
+  const removeLink = (index: number) => {
+    if (!node?.links) return;
+    updateNodeContent(node.id, { links: node.links.filter((_, i) => i !== index) });
+  };
+
+  // Several tags can be typed at once, separated by commas
+  const addTags = () => {
+    if (!node) return;
+    const added = tagDraft.split(',').map(normalizeTag).filter((tag): tag is string => tag !== null);
+    if (added.length > 0) updateNodeContent(node.id, { tags: [...(node.tags ?? []), ...added] });
+    setTagDraft('');
+  };
+
+  const removeTag = (tag: string) => {
+    if (!node?.tags) return;
+    updateNodeContent(node.id, { tags: node.tags.filter(entry => entry !== tag) });
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags();
+    } else if (e.key === 'Backspace' && !tagDraft && node?.tags) {
+      removeTag(node.tags[node.tags.length - 1]);
+    }
+  };
+
+  const handleLinkKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addLink();
+    }
+  };
+
+  const choiceClasses = (active: boolean) => `
+    px-2 py-1 rounded text-xs font-medium transition-colors
+    ${active ? 'bg-blue-500 text-white shadow-md' : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'}
+  `;
+  const fieldClasses = 'w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white';
+
+  return (
+    <aside className="w-80 shrink-0 h-full flex flex-col bg-slate-800 border-l border-slate-700">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+        <span className="font-semibold text-sm">Node details</span>
+        <button
+          onClick={() => setDetailsOpen(false)}
+          className="px-2 py-1 rounded text-sm text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+          title="Hide details (Alt+N)"
+        >
+          ✕
+        </button>
+      </div>
+
+      {!node ? (
+        <div className="p-4 text-sm text-slate-400">Select a node to add tags, a note, links or a checkbox.</div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div className="text-sm font-medium truncate" title={node.text}>{node.text || 'Untitled node'}</div>
+
+          <div className="space-y-1">
+            <div className="text-slate-400 text-xs">Tags</div>
+            <div className="flex flex-wrap items-center gap-1 bg-slate-900 border border-slate-600 rounded px-1.5 py-1">
+              {node.tags?.map(tag => (
+                <span
+                  key={tag}
+                  className="flex items-center gap-1 pl-2 pr-1 rounded-full text-xs font-semibold text-white"
+                  style={{ backgroundColor: getTagColor(tag) }}
+                >
+                  {tag}
+                  <button onClick={() => removeTag(tag)} className="opacity-70 hover:opacity-100" title="Remove tag">
+                    ✕
+                  </button>
+                </span>
+              ))}
+              <input
+                id={TAG_INPUT_ID}
+                value={tagDraft}
+                onChange={e => setTagDraft(e.target.value)}
+                onKeyDown={handleTagKeyDown}
+                onBlur={addTags}
+                list={TAG_SUGGESTIONS_ID}
+                placeholder={node.tags ? '' : 'owner:alice, blocked…'}
+                className="flex-1 min-w-[80px] bg-transparent outline-none text-sm text-white"
+              />
+              <datalist id={TAG_SUGGESTIONS_ID}>
+                {mapTags
+                  .filter(({ tag }) => !node.tags?.some(entry => entry.toLowerCase() === tag.toLowerCase()))
+                  .map(({ tag }) => <option key={tag} value={tag} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-slate-400 text-xs">Checkbox</div>
+            <div className="flex flex-wrap gap-1">
+              {TASK_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => updateNodeContent(node.id, { task: option.key ?? undefined })}
+                  className={choiceClasses((node.task ?? null) === option.key)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {progress && (
+              <div className="pt-1 space-y-1">
+                <div className="text-xs text-slate-300">{formatTaskProgress(progress)} tasks below are done</div>
+                <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+                  <div
+                    className="h-full bg-green-500 transition-all"
+                    style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <label className="block space-y-1">
+            <div className="text-slate-400 text-xs">Note (Markdown)</div>
+            <textarea
+              value={noteValue}
+              onChange={e => changeNote(e.target.value)}
+              placeholder="Longer thoughts, details, a checklist…"
+              rows={10}
+              className={`${fieldClasses} resize-y font-mono`}
+            />
+          </label>
+
+          <div className="space-y-2">
+            <div className="text-slate-400 text-xs">Links</div>
+            {node.links && (
+              <ul className="space-y-1">
+                {node.links.map((link, i) => (
+                  <li key={`${link.url}-${i}`} className="group flex items-center justify-between text-sm">
+                    <a
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="truncate text-sky-400 hover:underline"
+                      title={link.url}
+                    >
+                      🔗 {getLinkLabel(link)}
+                    </a>
+                    <button
+                      onClick={() => removeLink(i)}
+                      className="ml-2 px-1.5 rounded text-xs text-slate-400 hover:text-white hover:bg-slate-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove link"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <input
+              value={linkUrl}
+              onChange={e => setLinkUrl(e.target.value)}
+              onKeyDown={handleLinkKeyDown}
+              placeholder="https://example.com or name@example.com"
+              className={fieldClasses}
+            />
+            <div className="flex gap-2">
+              <input
+                value={linkTitle}
+                onChange={e => setLinkTitle(e.target.value)}
+                onKeyDown={handleLinkKeyDown}
+                placeholder="Title (optional)"
+                className={fieldClasses}
+              />
+              <button
+                onClick={addLink}
+                disabled={!linkUrl.trim()}
+                className="px-3 py-1 rounded text-sm font-medium bg-blue-500 hover:bg-blue-600 disabled:opacity-40 text-white transition-colors"
+              >
+                Add
+              </button>
+            </div>
+            {linkError && <div className="text-xs text-red-400">{linkError}</div>}
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,192 @@
+/**
+ * Node Style Popover Component
+ *
+ * This component edits the selected node's own style, just below the node:
+ * border and fill colors (palette or any color, "Auto" keeps the tier color),
+ * shape, icon, bold/large text and the highlight marker. Every change applies
+ * immediately and can be undone; dragging through a color picker undoes as one step.
+ *
+ * Update when: Adding style options or changing how the style editor is opened.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useUIStore } from '../../stores/ui-store';
+import { getNodeColors, NODE_SHAPE_OPTIONS, STYLE_COLORS, STYLE_ICONS } from '../../utils/node-style';
+import { getTheme } from '../../utils/themes';
+import type { NodeStyle } from '../../types';
+
+interface NodeStylePopoverProps {
+  anchor: { x: number; y: number };  // Canvas point just below the selected node
+}
+
+type ColorField = 'borderColor' | 'fillColor';
+type TextField = ColorField | 'icon';
+
+export const NodeStylePopover: React.FC<NodeStylePopoverProps> = ({ anchor }) => {
+  const { dialog, closeDialog } = useUIStore();
+  const { nodes, selectedId, theme, updateNodeStyle } = useMapStore();
+  const panelRef = useRef<HTMLDivElement>(null);
+  // Color picker and icon typing changes within one opening share a merge key per field
+  const session = useRef(0);
+
+  const isOpen = dialog === 'style';
+  const node = selectedId ? nodes.get(selectedId) : undefined;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    session.current = Date.now();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeDialog();
+    };
+    // Clicking anywhere else (including another node) closes the popover
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!panelRef.current?.contains(e.target as Element)) closeDialog();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [isOpen, closeDialog]);
+
+  // Nothing to style once the node is gone (deleted, undone, or the map was switched)
+  useEffect(() => {
+    if (isOpen && !node) closeDialog();
+  }, [isOpen, node, closeDialog]);
+
+  if (!isOpen || !node) return null;
+
+  const style = node.style ?? {};
+  const colors = getNodeColors(node, nodes, getTheme(theme));
+  const update = (changes: Partial<NodeStyle> | null) => updateNodeStyle(node.id, changes);
+  const updateMerged = (field: TextField, value: string) => {
+    updateNodeStyle(node.id, { [field]: value }, { mergeKey: `style:${node.id}:${field}:${session.current}` });
+  };
+
+  const choiceClasses = (active: boolean) => `
+    px-2 py-1 rounded text-xs font-medium transition-colors
+    ${active ? 'bg-blue-500 text-white shadow-md' : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'}
+  `;
+  const swatchClasses = (active: boolean) => `
+    w-5 h-5 rounded border-2 transition-transform hover:scale-110
+    ${active ? 'border-white' : 'border-slate-600'}
+  `;
+
+  const renderColorRow = (field: ColorField, label: string, current: string) => (
+    <div className="space-y-1">
+      <div className="text-slate-400 text-xs">{label}</div>
+      <div className="flex flex-wrap items-center gap-1">
+        <button
+          onClick={() => update({ [field]: undefined })}
+          className={choiceClasses(!style[field])}
+          title="Use the tier color"
+        >
+          Auto
+        </button>
+        {STYLE_COLORS.map(color => (
+          <button
+            key={color}
+            onClick={() => update({ [field]: color })}
+            className={swatchClasses(style[field] === color)}
+            style={{ backgroundColor: color }}
+            title={color}
+          />
+        ))}
+        <input
+          type="color"
+          value={current}
+          onChange={e => updateMerged(field, e.target.value)}
+          className="w-6 h-6 bg-transparent cursor-pointer"
+          title="Any color"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute z-50 w-80 -translate-x-1/2 bg-slate-800/95 backdrop-blur-sm border border-slate-700 rounded-lg px-3 py-2 shadow-lg space-y-3"
+      style={{ left: anchor.x, top: anchor.y }}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Node style</span>
+        <button onClick={closeDialog} className="text-slate-400 hover:text-white text-sm" title="Close (Escape)">
+          ✕
+        </button>
+      </div>
+
+      {renderColorRow('borderColor', 'Border', colors.stroke)}
+      {renderColorRow('fillColor', 'Fill', colors.fill)}
+
+      <div className="space-y-1">
+        <div className="text-slate-400 text-xs">Shape</div>
+        <div className="flex flex-wrap gap-1">
+          {NODE_SHAPE_OPTIONS.map(option => (
+            <button
+              key={option.key}
+              onClick={() => update({ shape: option.key })}
+              className={choiceClasses((style.shape ?? 'rounded') === option.key)}
+              title={option.label}
+            >
+              {option.icon} {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-slate-400 text-xs">Icon</div>
+        <div className="flex flex-wrap items-center gap-1">
+          <button onClick={() => update({ icon: undefined })} className={choiceClasses(!style.icon)}>
+            None
+          </button>
+          {STYLE_ICONS.map(icon => (
+            <button
+              key={icon}
+              onClick={() => update({ icon })}
+              className={`w-7 h-7 rounded text-base ${style.icon === icon ? 'bg-blue-500' : 'hover:bg-slate-700'}`}
+            >
+              {icon}
+            </button>
+          ))}
+          <input
+            value={style.icon ?? ''}
+            onChange={e => updateMerged('icon', e.target.value)}
+            placeholder="Other"
+            className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+            title="Type or paste any emoji"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          <button onClick={() => update({ bold: !style.bold })} className={choiceClasses(Boolean(style.bold))}>
+            <span className="font-bold">B</span> Bold
+          </button>
+          <button onClick={() => update({ large: !style.large })} className={choiceClasses(Boolean(style.large))}>
+            Large
+          </button>
+          <button
+            onClick={() => update({ highlight: !style.highlight })}
+            className={choiceClasses(Boolean(style.highlight))}
+          >
+            Highlight
+          </button>
+        </div>
+        <button
+          onClick={() => update(null)}
+          disabled={!node.style}
+          className="text-xs text-slate-400 hover:text-white disabled:opacity-40"
+          title="Back to the tier colors and default shape"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+/**
+ * Node Width Switcher Component
+ *
+ * This component picks the width node text wraps at. The width is stored per map
+ * and used by the layouts, the nodes on the canvas and exports.
+ *
+ * Update when: Changing the node widths offered in the toolbar.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { NODE_WIDTH_OPTIONS } from '../../utils/node-metrics';
+
+export const NodeWidthSwitcher: React.FC = () => {
+  const { nodeWidth, setNodeWidth } = useMapStore();
+
+  return (
+    <div className="flex items-center space-x-1">
+      <span className="text-slate-400 text-sm mr-2">Width:</span>
+      <select
+        value={nodeWidth}
+        onChange={e => setNodeWidth(Number(e.target.value))}
+        className="px-2 py-1 rounded text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 border-none cursor-pointer"
+        title="Width node text wraps at, on screen and in exports"
+      >
+        {NODE_WIDTH_OPTIONS.map(option => (
+          <option key={option.key} value={option.width}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
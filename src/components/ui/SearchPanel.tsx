@@ -0,0 +1,124 @@
+/**
+ * Search Panel Component
+ *
+ * This component searches node text (opened with the Ctrl+F command). Enter / Shift+Enter select the
+ * next / previous match, which the canvas then centers on; matches hidden in
+ * collapsed branches are expanded as they're reached. Filter mode dims every
+ * other node and shows all matches without changing the map.
+ *
+ * Update when: Changing search options or result navigation.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useUIStore } from '../../stores/ui-store';
+import { findVisibleAncestor } from '../../utils/tree-operations';
+import { SEARCH_INPUT_ID } from '../../commands';
+
+interface SearchPanelProps {
+  matchIds: string[];     // Matching nodes in tree order
+  error: string | null;   // Invalid regex message
+}
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ matchIds, error }) => {
+  const { search, closeSearch, updateSearch } = useUIStore();
+  const { selectedId, selectNode, revealNode } = useMapStore();
+
+  if (!search) return null;
+
+  const currentIndex = selectedId ? matchIds.indexOf(selectedId) : -1;
+
+  const goToMatch = (step: 1 | -1) => {
+    if (matchIds.length === 0) return;
+    const index = currentIndex === -1
+      ? (step === 1 ? 0 : matchIds.length - 1)
+      : (currentIndex + step + matchIds.length) % matchIds.length;
+    const id = matchIds[index];
+
+    // Filter mode already shows every match; otherwise open up the branch it's in
+    if (!search.filter) revealNode(id);
+    selectNode(id);
+  };
+
+  // Leaving filter mode hides revealed branches again, so keep the selection on something visible
+  const keepSelectionVisible = () => {
+    const { nodes, selectedId } = useMapStore.getState();
+    if (selectedId) selectNode(findVisibleAncestor(nodes, selectedId));
+  };
+
+  const handleClose = () => {
+    keepSelectionVisible();
+    closeSearch();
+  };
+
+  const handleToggleFilter = () => {
+    if (search.filter) keepSelectionVisible();
+    updateSearch({ filter: !search.filter });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goToMatch(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      handleClose();
+    }
+  };
+
+  const toggleClasses = (active: boolean) => `
+    px-2 py-1 rounded text-xs font-medium transition-colors
+    ${active ? 'bg-blue-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'}
+  `;
+  const navClasses = 'px-2 py-1 rounded text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed';
+
+  let status = '';
+  if (error) {
+    status = 'Invalid regex';
+  } else if (search.query) {
+    status = matchIds.length === 0
+      ? 'No matches'
+      : `${currentIndex === -1 ? '–' : currentIndex + 1} of ${matchIds.length}`;
+  }
+
+  return (
+    <div className="absolute top-20 right-4 z-50 w-80 bg-slate-800/95 backdrop-blur-sm border border-slate-700 rounded-lg px-3 py-2 shadow-lg space-y-2">
+      <div className="flex items-center space-x-2">
+        <input
+          id={SEARCH_INPUT_ID}
+          autoFocus
+          value={search.query}
+          onChange={e => updateSearch({ query: e.target.value })}
+          onKeyDown={handleKeyDown}
+          placeholder="Search nodes…"
+          spellCheck={false}
+          className={`flex-1 min-w-0 bg-slate-900 border rounded px-2 py-1 text-sm text-white ${error ? 'border-red-500' : 'border-slate-600'}`}
+        />
+        <button onClick={handleClose} className="text-slate-400 hover:text-white text-sm" title="Close (Escape)">
+          ✕
+        </button>
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => updateSearch({ useRegex: !search.useRegex })}
+          className={toggleClasses(search.useRegex)}
+          title="Use regular expression"
+        >
+          .*
+        </button>
+        <button onClick={handleToggleFilter} className={toggleClasses(search.filter)} title="Dim non-matching nodes">
+          Filter
+        </button>
+        <span className={`flex-1 text-xs truncate ${error ? 'text-red-400' : 'text-slate-400'}`} title={error ?? undefined}>
+          {status}
+        </span>
+        <button onClick={() => goToMatch(-1)} disabled={matchIds.length === 0} className={navClasses} title="Previous match (Shift+Enter)">
+          ↑
+        </button>
+        <button onClick={() => goToMatch(1)} disabled={matchIds.length === 0} className={navClasses} title="Next match (Enter)">
+          ↓
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+/**
+ * Shortcut Help Component
+ *
+ * This component lists the active keyboard shortcuts for the help popover,
+ * generated from the command registry and the user's keymap so it always
+ * matches what the keys actually do. Grouped by command category.
+ *
+ * Update when: Changing how shortcuts are summarized in the help popover.
+ */
+
+import React from 'react';
+import { useKeymapStore } from '../../stores/keymap-store';
+import { useUIStore } from '../../stores/ui-store';
+import { formatShortcut, getCommandKeys, getCommands } from '../../commands';
+
+export const ShortcutHelp: React.FC = () => {
+  // Subscribed so rebinding updates the list
+  const { bindings } = useKeymapStore();
+  const { openDialog } = useUIStore();
+
+  const categories = new Map<string, { label: string; keys: string }[]>();
+  getCommands().forEach(command => {
+    const keys = getCommandKeys(command, bindings);
+    if (keys.length === 0) return;
+    const lines = categories.get(command.category) ?? [];
+    lines.push({ label: command.label, keys: keys.map(formatShortcut).join(' / ') });
+    categories.set(command.category, lines);
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-white">Keyboard Shortcuts</span>
+        <button onClick={() => openDialog('keybindings')} className="ml-4 text-blue-300 hover:text-white underline">
+          Customize…
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        {Array.from(categories).map(([category, lines]) => (
+          <div key={category}>
+            <div className="text-slate-400 font-semibold">{category}</div>
+            {lines.map(line => (
+              <div key={line.label}>{line.keys}: {line.label}</div>
+            ))}
+          </div>
+        ))}
+        {/* Keys handled outside the command registry */}
+        <div>
+          <div className="text-slate-400 font-semibold">Other</div>
+          <div>Ctrl+C / Ctrl+V: Copy / paste as Markdown outline</div>
+          <div>Enter / Shift+Enter in search: Next / previous match</div>
+        </div>
+      </div>
+    </div>
+  );
+};
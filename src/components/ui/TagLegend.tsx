@@ -0,0 +1,74 @@
+/**
+ * Tag Legend Component
+ *
+ * This component lists every tag in the map with its chip color and node count.
+ * Clicking tags toggles the tag filter: the canvas then shows only nodes with any
+ * selected tag, plus their ancestors for context. The filter only changes the
+ * view, never the map.
+ *
+ * Update when: Changing tag filter options or how the legend lists tags.
+ */
+
+import React, { useMemo } from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useUIStore } from '../../stores/ui-store';
+import { collectTags, getTagColor } from '../../utils/tags';
+
+interface TagLegendProps {
+  shownCount: number;     // Nodes the filter leaves on the canvas
+}
+
+export const TagLegend: React.FC<TagLegendProps> = ({ shownCount }) => {
+  const { tagsOpen, tagFilter, setTagsOpen, toggleTagFilter, clearTagFilter } = useUIStore();
+  const { nodes } = useMapStore();
+  const tags = useMemo(() => (tagsOpen ? collectTags(nodes) : []), [tagsOpen, nodes]);
+
+  if (!tagsOpen) return null;
+
+  const isActive = (tag: string) => tagFilter.some(entry => entry.toLowerCase() === tag.toLowerCase());
+  const isFiltering = tags.some(({ tag }) => isActive(tag));
+
+  return (
+    <div className="absolute top-20 left-4 z-50 w-64 bg-slate-800/95 backdrop-blur-sm border border-slate-700 rounded-lg px-3 py-2 shadow-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Tags</span>
+        <button onClick={() => setTagsOpen(false)} className="text-slate-400 hover:text-white text-sm" title="Close">
+          ✕
+        </button>
+      </div>
+
+      {tags.length === 0 ? (
+        <div className="text-xs text-slate-400">No tags yet. Add them in the details panel (Alt+T).</div>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto space-y-1">
+          {tags.map(({ tag, count }) => (
+            <li key={tag}>
+              <button
+                onClick={() => toggleTagFilter(tag)}
+                className={`w-full flex items-center justify-between px-2 py-1 rounded text-sm transition-colors ${
+                  isActive(tag) ? 'bg-slate-600 text-white' : 'text-slate-300 hover:bg-slate-700'
+                }`}
+                title={isActive(tag) ? 'Stop filtering by this tag' : 'Show only nodes with this tag'}
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="w-3 h-3 shrink-0 rounded-full" style={{ backgroundColor: getTagColor(tag) }} />
+                  <span className="truncate">{tag}</span>
+                </span>
+                <span className="text-xs text-slate-400">{count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isFiltering && (
+        <div className="flex items-center justify-between pt-1 border-t border-slate-700">
+          <span className="text-xs text-slate-400">Showing {shownCount} of {nodes.size} nodes</span>
+          <button onClick={clearTagFilter} className="text-xs text-slate-300 hover:text-white">
+            Show all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
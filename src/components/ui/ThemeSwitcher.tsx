@@ -0,0 +1,35 @@
+/**
+ * Theme Switcher Component
+ *
+ * This component picks the map's color theme from the registered themes.
+ * The theme is stored per map and used by the nodes, the edge canvas and exports.
+ *
+ * Update when: Changing how themes are offered in the toolbar.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { getThemes } from '../../utils/themes';
+import type { ThemeKey } from '../../types';
+
+export const ThemeSwitcher: React.FC = () => {
+  const { theme, setTheme } = useMapStore();
+
+  return (
+    <div className="flex items-center space-x-1">
+      <span className="text-slate-400 text-sm mr-2">Theme:</span>
+      <select
+        value={theme}
+        onChange={e => setTheme(e.target.value as ThemeKey)}
+        className="px-2 py-1 rounded text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-300 border-none cursor-pointer"
+        title="Colors and font of this map, on screen and in exports"
+      >
+        {getThemes().map(option => (
+          <option key={option.key} value={option.key} title={option.description}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
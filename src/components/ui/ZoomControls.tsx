@@ -0,0 +1,45 @@
+/**
+ * Zoom Controls Component
+ *
+ * This component shows the current zoom percentage with zoom in/out,
+ * reset, fit-to-map and zoom-to-selection buttons.
+ *
+ * Update when: Changing zoom commands or their shortcuts.
+ */
+
+import React from 'react';
+import { useMapStore } from '../../stores/map-store';
+import { useUIStore } from '../../stores/ui-store';
+import { useViewCommands } from '../../hooks/use-view-commands';
+
+export const ZoomControls: React.FC = () => {
+  const { selectedId } = useMapStore();
+  const { view } = useUIStore();
+  const { zoomIn, zoomOut, resetZoom, zoomToFit, zoomToSelection } = useViewCommands();
+
+  const buttonClasses =
+    'px-2 py-1 rounded text-sm font-medium transition-colors bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex items-center space-x-1">
+      <button onClick={zoomOut} className={buttonClasses} title="Zoom out (-)">−</button>
+      <button
+        onClick={resetZoom}
+        className={`${buttonClasses} w-14 tabular-nums`}
+        title="Reset zoom to 100% (Ctrl+0)"
+      >
+        {Math.round(view.zoom * 100)}%
+      </button>
+      <button onClick={zoomIn} className={buttonClasses} title="Zoom in (+)">+</button>
+      <button onClick={zoomToFit} className={buttonClasses} title="Zoom to fit (Shift+1)">⛶</button>
+      <button
+        onClick={zoomToSelection}
+        disabled={!selectedId}
+        className={buttonClasses}
+        title="Zoom to selection (Shift+2)"
+      >
+        ⌖
+      </button>
+    </div>
+  );
+};
@@ -7,4 +7,22 @@
  * Update when: Adding new UI components or modifying UI exports.
  */
 
-export { LayoutSwitcher } from './LayoutSwitcher'; 
\ No newline at end of file
+export { LayoutSwitcher } from './LayoutSwitcher'; 
+export { HistoryControls } from './HistoryControls';
+export { EdgeStyleSwitcher } from './EdgeStyleSwitcher';
+export { ThemeSwitcher } from './ThemeSwitcher';
+export { NodeWidthSwitcher } from './NodeWidthSwitcher';
+export { CollapseControls } from './CollapseControls';
+export { ZoomControls } from './ZoomControls';
+export { DocumentSidebar } from './DocumentSidebar';
+export { NodeDetailsPanel } from './NodeDetailsPanel';
+export { FileControls } from './FileControls';
+export { ExportDialog } from './ExportDialog';
+export { DiagramDialog } from './DiagramDialog';
+export { SearchPanel } from './SearchPanel';
+export { TagLegend } from './TagLegend';
+export { NodeStylePopover } from './NodeStylePopover';
+export { CommandPalette } from './CommandPalette';
+export { KeybindingsDialog } from './KeybindingsDialog';
+export { ShortcutHelp } from './ShortcutHelp';
+export { ExportFormatMenu } from './ExportFormatMenu';
@@ -7,4 +7,9 @@
  * Update when: Adding new hooks or modifying hook exports.
  */
 
-export * from './use-keyboard-navigation'; 
\ No newline at end of file
+export * from './use-keyboard-navigation';
+export * from './use-node-drag';
+export * from './use-view-commands';
+export * from './use-displayed-map';
+export * from './use-outline-clipboard';
+export * from './use-file-commands';
@@ -0,0 +1,63 @@
+/**
+ * MapItOut Displayed Map Hook
+ *
+ * This hook provides the nodes the canvas shows (see utils/displayed-nodes.ts)
+ * together with their layout in the map theme's font and node width. Commands read the same
+ * result through getDisplayedMap, so zooming, centering and arrow key navigation
+ * use exactly the positions that are drawn. The last result is cached, since
+ * the canvas and commands ask for it with the same inputs; a web font that
+ * finishes loading invalidates it, so nodes are measured again in the real font.
+ *
+ * Update when: Changing what the canvas lays out or what the layout depends on.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { useMapStore } from '../stores/map-store';
+import { useUIStore } from '../stores/ui-store';
+import { getDisplayedNodes } from '../utils/displayed-nodes';
+import type { DisplayedNodes } from '../utils/displayed-nodes';
+import { calculateLayout } from '../utils/layout-engines';
+import { getFontGeneration, subscribeToFontChanges } from '../utils/text-measure';
+import { getTheme } from '../utils/themes';
+import type { LayoutType, Node, Position, SearchState, ThemeKey } from '../types';
+
+export interface DisplayedMap extends DisplayedNodes {
+  positions: Map<string, Position>;   // Layout of the displayed nodes
+}
+
+let cache: { inputs: unknown[]; map: DisplayedMap } | null = null;
+
+const selectDisplayedMap = (
+  nodes: Map<string, Node>,
+  layoutType: LayoutType,
+  theme: ThemeKey,
+  nodeWidth: number,
+  search: SearchState | null,
+  tagFilter: string[],
+  fontGeneration: number
+): DisplayedMap => {
+  const inputs = [nodes, layoutType, theme, nodeWidth, search, tagFilter, fontGeneration];
+  if (cache && inputs.every((input, i) => input === cache!.inputs[i])) return cache.map;
+
+  const displayed = getDisplayedNodes(nodes, search, tagFilter);
+  const measure = { fontFamily: getTheme(theme).fontFamily, maxWidth: nodeWidth };
+  const map = { ...displayed, positions: calculateLayout(displayed.nodes, layoutType, measure) };
+  cache = { inputs, map };
+  return map;
+};
+
+/**
+ * The displayed nodes and their positions for the current store state, usable outside components.
+ */
+export const getDisplayedMap = (): DisplayedMap => {
+  const { nodes, layoutType, theme, nodeWidth } = useMapStore.getState();
+  const { search, tagFilter } = useUIStore.getState();
+  return selectDisplayedMap(nodes, layoutType, theme, nodeWidth, search, tagFilter, getFontGeneration());
+};
+
+export const useDisplayedMap = (): DisplayedMap => {
+  const { nodes, layoutType, theme, nodeWidth } = useMapStore();
+  const { search, tagFilter } = useUIStore();
+  const fontGeneration = useSyncExternalStore(subscribeToFontChanges, getFontGeneration);
+  return selectDisplayedMap(nodes, layoutType, theme, nodeWidth, search, tagFilter, fontGeneration);
+};
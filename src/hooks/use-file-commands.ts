@@ -0,0 +1,99 @@
+/**
+ * MapItOut File Commands Hook
+ *
+ * This hook provides opening, importing and saving map files, shared by the
+ * toolbar, file drops on the canvas and the command registry (Ctrl+S / Ctrl+O).
+ * Formats come from the format registry; opened files become new maps.
+ *
+ * Update when: Changing how maps are saved to or opened from files.
+ */
+
+import { useMapStore } from '../stores/map-store';
+import { useDocumentsStore } from '../stores/documents-store';
+import {
+  findMapFormatForFile,
+  getMapFormat,
+  getReadableFileAccept,
+  MapFileError,
+} from '../utils/formats';
+import type { MapFormatKey } from '../types';
+import { downloadText, getBaseName, pickTextFile, toFileStem } from '../utils/download';
+
+const getActiveTitle = () => {
+  const { documents, activeId } = useDocumentsStore.getState();
+  return documents.find(doc => doc.id === activeId)?.title ?? 'Untitled Map';
+};
+
+/**
+ * Read a file's text with the format matching its name and open it as a new map.
+ */
+const importMapText = (fileName: string, text: string) => {
+  const format = findMapFormatForFile(fileName);
+  if (!format?.read) {
+    alert(`Couldn't open ${fileName}: unsupported file type.`);
+    return;
+  }
+
+  try {
+    const map = format.read(text);
+    useDocumentsStore.getState().createDocument(map.title ?? getBaseName(fileName));
+
+    const { setNodes, setLayoutType, setEdgeStyle, setTheme, setNodeWidth } = useMapStore.getState();
+    setNodes(map.nodes, `Open ${format.label} file`, map.rootId);
+    if (map.layoutType) setLayoutType(map.layoutType);
+    if (map.edgeStyle) setEdgeStyle(map.edgeStyle);
+    if (map.theme) setTheme(map.theme);
+    if (map.nodeWidth) setNodeWidth(map.nodeWidth);
+  } catch (error) {
+    if (!(error instanceof MapFileError)) throw error;
+    alert(`Couldn't open ${fileName}.\n\n${error.message}`);
+  }
+};
+
+const importMapFiles = async (files: Iterable<File>) => {
+  for (const file of files) {
+    try {
+      importMapText(file.name, await file.text());
+    } catch (error) {
+      // Unreadable files (e.g. a dropped folder) and unexpected errors still get a message
+      alert(`Couldn't open ${file.name}.\n\n${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+};
+
+const openMapFromFile = async () => {
+  const file = await pickTextFile(getReadableFileAccept());
+  if (file) importMapText(file.name, file.text);
+};
+
+/**
+ * The current map written in a format, or null if the format can't write or the map is empty.
+ */
+const writeMapAs = (key: MapFormatKey): string | null => {
+  const format = getMapFormat(key);
+  const { nodes, layoutType, edgeStyle, theme, nodeWidth } = useMapStore.getState();
+  if (!format?.write || nodes.size === 0) return null;
+
+  return format.write({ title: getActiveTitle(), nodes, layoutType, edgeStyle, theme, nodeWidth });
+};
+
+const exportMap = (key: MapFormatKey) => {
+  const format = getMapFormat(key);
+  const content = writeMapAs(key);
+  if (!format || content === null) return;
+
+  downloadText(content, `${toFileStem(getActiveTitle())}${format.extensions[0]}`, format.mimeType);
+};
+
+const saveMapToFile = () => exportMap('mapitout');
+
+// Plain functions, usable outside components (e.g. by registered commands)
+export const fileCommands = {
+  saveMapToFile,
+  openMapFromFile,
+  importMapFiles,
+  writeMapAs,
+  exportMap,
+};
+
+export const useFileCommands = () => fileCommands;
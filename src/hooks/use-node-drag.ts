@@ -0,0 +1,85 @@
+/**
+ * MapItOut Node Drag Hook
+ *
+ * This hook drives drag-and-drop restructuring once a node has called startDrag.
+ * It tracks the pointer on the window, resolves the drop target under it, and
+ * moves the node (with its subtree) through the map store on release.
+ * Drop targets and the preview use the displayed layout, so view filters apply.
+ *
+ * Update when: Changing drag thresholds, drop behavior, or preview rendering.
+ */
+
+import { useEffect, useMemo } from 'react';
+import type { RefObject } from 'react';
+import { useMapStore } from '../stores/map-store';
+import { useUIStore } from '../stores/ui-store';
+import { getDisplayedNodes } from '../utils/displayed-nodes';
+import { findDropTarget, getDropPreview } from '../utils/drag-drop';
+import { calculateLayout } from '../utils/layout-engines';
+import { getTheme } from '../utils/themes';
+import { useDisplayedMap } from './use-displayed-map';
+
+// Pixels the pointer must travel before a press turns into a drag
+const DRAG_THRESHOLD = 4;
+
+export const useNodeDrag = (containerRef: RefObject<HTMLDivElement | null>) => {
+  const { nodes, layoutType, theme, nodeWidth, moveNode } = useMapStore();
+  const { drag, search, tagFilter, updateDrag, endDrag } = useUIStore();
+  const { positions } = useDisplayedMap();
+
+  const isDragging = drag !== null;
+  const draggedId = drag?.active ? drag.nodeId : null;
+  const dropTarget = drag?.active ? drag.dropTarget : null;
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const current = useUIStore.getState().drag;
+      if (!current) return;
+
+      // Ignore small jitters so plain clicks still select
+      if (!current.active) {
+        const distance = Math.hypot(e.clientX - current.origin.x, e.clientY - current.origin.y);
+        if (distance < DRAG_THRESHOLD) return;
+      }
+
+      // The container carries the pan/zoom transform: its rect gives the pan, the zoom scales the offset
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const { zoom } = useUIStore.getState().view;
+      const point = { x: (e.clientX - rect.left) / zoom, y: (e.clientY - rect.top) / zoom };
+
+      updateDrag({
+        active: true,
+        dropTarget: findDropTarget(nodes, positions, current.nodeId, point, layoutType),
+      });
+    };
+
+    const handleMouseUp = () => {
+      const current = useUIStore.getState().drag;
+      if (current?.active && current.dropTarget?.valid) {
+        moveNode(current.nodeId, current.dropTarget.parentId, current.dropTarget.index);
+      }
+      endDrag();
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, containerRef, nodes, positions, layoutType, moveNode, updateDrag, endDrag]);
+
+  // Ghost positions for the dragged subtree as if it were dropped at the current target
+  const preview = useMemo(() => {
+    if (!draggedId || !dropTarget) return null;
+    const measure = { fontFamily: getTheme(theme).fontFamily, maxWidth: nodeWidth };
+    return getDropPreview(nodes, draggedId, dropTarget, movedNodes =>
+      calculateLayout(getDisplayedNodes(movedNodes, search, tagFilter).nodes, layoutType, measure)
+    );
+  }, [nodes, layoutType, theme, nodeWidth, search, tagFilter, draggedId, dropTarget]);
+
+  return { preview };
+};
@@ -0,0 +1,62 @@
+/**
+ * MapItOut Outline Clipboard Hook
+ *
+ * This hook copies the selected subtree as a Markdown outline (Ctrl+C) and
+ * pastes Markdown or indented text as new children of the selection (Ctrl+V).
+ * It uses the native copy/paste events, so no clipboard permission is needed.
+ *
+ * Update when: Changing clipboard formats or where pasted nodes are inserted.
+ */
+
+import { useEffect } from 'react';
+import { useMapStore } from '../stores/map-store';
+import { useUIStore } from '../stores/ui-store';
+import { findRootNode } from '../utils/tree-operations';
+import { outlineFromNodes, parseMarkdownOutline, serializeMarkdownOutline } from '../utils/formats';
+import { isTextTarget } from '../commands';
+
+// Editing a node or an open dialog owns the keyboard
+const isBusy = () => {
+  const { isEditing, dialog } = useUIStore.getState();
+  return isEditing || dialog !== null;
+};
+
+export const useOutlineClipboard = () => {
+  useEffect(() => {
+    const handleCopy = (e: ClipboardEvent) => {
+      // Let text fields and in-place editing handle their own clipboard
+      if (isTextTarget(e.target) || isBusy()) return;
+      // Leave ordinary text selections (e.g. in the help popover) alone
+      if (window.getSelection()?.toString()) return;
+
+      const { nodes, selectedId } = useMapStore.getState();
+      if (!selectedId || !e.clipboardData) return;
+      const outline = outlineFromNodes(nodes, selectedId);
+      if (!outline) return;
+
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', serializeMarkdownOutline(outline, { rootAsHeading: false }));
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTextTarget(e.target) || isBusy()) return;
+
+      const items = parseMarkdownOutline(e.clipboardData?.getData('text/plain') ?? '');
+      if (items.length === 0) return;
+
+      // Paste under the selection, or under the root when nothing is selected
+      const { nodes, selectedId, insertOutline } = useMapStore.getState();
+      const parentId = selectedId ?? findRootNode(nodes)?.id ?? null;
+
+      e.preventDefault();
+      insertOutline(parentId, items, 'Paste outline');
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+};
@@ -0,0 +1,77 @@
+/**
+ * MapItOut View Commands Hook
+ *
+ * This hook provides the view commands shared by the command registry and
+ * the toolbar: zoom in/out around the viewport center, reset to 100%,
+ * zoom to fit the whole map, zoom to the selected node, and center on the root.
+ * They work on the nodes the canvas shows, so view filters are taken into account.
+ *
+ * Update when: Adding view commands or changing how they pick their targets.
+ */
+
+import { useMapStore } from '../stores/map-store';
+import { useUIStore } from '../stores/ui-store';
+import { getDisplayedMap } from './use-displayed-map';
+import { findRootNode } from '../utils/tree-operations';
+import {
+  ZOOM_STEP,
+  centerViewOn,
+  fitViewToBounds,
+  getPositionsBounds,
+  zoomAtPoint,
+} from '../utils/viewport';
+
+// Zoom to selection shows the node at a comfortable reading size
+const SELECTION_ZOOM = 1.5;
+
+const zoomAroundCenter = (factor: number) => {
+  const { view, viewportSize, setView } = useUIStore.getState();
+  setView(zoomAtPoint(view, factor, { x: viewportSize.width / 2, y: viewportSize.height / 2 }));
+};
+
+const zoomIn = () => zoomAroundCenter(ZOOM_STEP);
+
+const zoomOut = () => zoomAroundCenter(1 / ZOOM_STEP);
+
+const resetZoom = () => {
+  const { view } = useUIStore.getState();
+  zoomAroundCenter(1 / view.zoom);
+};
+
+const zoomToFit = () => {
+  const { viewportSize, setView } = useUIStore.getState();
+  const bounds = getPositionsBounds(getDisplayedMap().positions.values());
+  if (!bounds) return;
+  setView(fitViewToBounds(bounds, viewportSize));
+};
+
+const centerOnRoot = () => {
+  const { nodes, positions } = getDisplayedMap();
+  const { view, viewportSize, setView } = useUIStore.getState();
+  const root = findRootNode(nodes);
+  const position = root && positions.get(root.id);
+  if (!position) return;
+  // Pan so the root sits in the middle of the canvas at the current zoom
+  setView(centerViewOn(view, position, viewportSize));
+};
+
+const zoomToSelection = () => {
+  const { selectedId } = useMapStore.getState();
+  const { viewportSize, setView } = useUIStore.getState();
+  if (!selectedId) return;
+  const position = getDisplayedMap().positions.get(selectedId);
+  if (!position) return;
+  setView(centerViewOn({ x: 0, y: 0, zoom: SELECTION_ZOOM }, position, viewportSize));
+};
+
+// Plain functions, usable outside components (e.g. by registered commands)
+export const viewCommands = {
+  zoomIn,
+  zoomOut,
+  resetZoom,
+  zoomToFit,
+  zoomToSelection,
+  centerOnRoot,
+};
+
+export const useViewCommands = () => viewCommands;
@@ -0,0 +1,155 @@
+/**
+ * MapItOut Documents Store
+ *
+ * This file contains the Zustand store for the list of saved maps.
+ * Each map's metadata (id, title, timestamps) lives here, while its content is
+ * persisted separately under `mapitout-map:<id>` by the map store.
+ * Opening a map points the map store's persist key at that map and rehydrates it.
+ *
+ * Update when: Changing how maps are stored, switched, or migrated.
+ */
+
+import { create } from 'zustand';
+import { nanoid } from 'nanoid';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { DocumentsState, MapDocument } from '../types';
+import { useMapStore } from './map-store';
+import { useUIStore } from './ui-store';
+
+// Where the single map lived before documents existed
+const LEGACY_STORAGE_KEY = 'mapitout-store';
+
+const DEFAULT_TITLE = 'Untitled Map';
+
+export const getMapStorageKey = (id: string) => `mapitout-map:${id}`;
+
+// True while the map store is being rehydrated, so loading a map doesn't count as a change
+let switching = false;
+
+const newDocument = (title: string): MapDocument => {
+  const now = Date.now();
+  return { id: nanoid(), title, created: now, modified: now };
+};
+
+const useDocumentsStore = create<DocumentsState>()(
+  persist(
+    (set, get) => ({
+      documents: [],
+      activeId: null,
+
+      createDocument: (title: string = DEFAULT_TITLE) => {
+        const document = newDocument(title);
+        set(state => ({ documents: [...state.documents, document] }));
+        get().openDocument(document.id);
+        return document.id;
+      },
+
+      renameDocument: (id: string, title: string) => {
+        const trimmed = title.trim();
+        if (!trimmed) return;
+        set(state => ({
+          documents: state.documents.map(doc =>
+            doc.id === id ? { ...doc, title: trimmed, modified: Date.now() } : doc
+          ),
+        }));
+      },
+
+      duplicateDocument: (id: string) => {
+        const source = get().documents.find(doc => doc.id === id);
+        if (!source) return null;
+
+        // The active map is written on every change, so storage is always current
+        const copy = newDocument(`${source.title} (copy)`);
+        const content = localStorage.getItem(getMapStorageKey(id));
+        if (content) localStorage.setItem(getMapStorageKey(copy.id), content);
+
+        set(state => ({ documents: [...state.documents, copy] }));
+        return copy.id;
+      },
+
+      deleteDocument: (id: string) => {
+        const { documents, activeId } = get();
+        if (!documents.some(doc => doc.id === id)) return;
+
+        localStorage.removeItem(getMapStorageKey(id));
+        const remaining = documents.filter(doc => doc.id !== id);
+        set({ documents: remaining });
+        if (id !== activeId) return;
+
+        // Fall back to the most recently modified map, or start a fresh one
+        const next = [...remaining].sort((a, b) => b.modified - a.modified)[0];
+        if (next) {
+          get().openDocument(next.id);
+        } else {
+          get().createDocument();
+        }
+      },
+
+      openDocument: (id: string) => {
+        if (!get().documents.some(doc => doc.id === id)) return;
+
+        const ui = useUIStore.getState();
+        ui.stopEditing();
+        ui.endDrag();
+        ui.setView({ x: 0, y: 0, zoom: 1 });
+        // Tags belong to a map, so the previous map's tag filter doesn't carry over
+        ui.clearTagFilter();
+
+        // localStorage is synchronous, so the map is fully loaded when rehydrate returns
+        switching = true;
+        useMapStore.persist.setOptions({ name: getMapStorageKey(id) });
+        useMapStore.persist.rehydrate();
+        switching = false;
+
+        set({ activeId: id });
+      },
+    }),
+    {
+      name: 'mapitout-documents',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        documents: state.documents,
+        activeId: state.activeId,
+      }),
+    }
+  )
+);
+
+// Keep the active map's modified time current
+useMapStore.subscribe((state, prev) => {
+  if (switching || state.nodes === prev.nodes) return;
+  const { activeId } = useDocumentsStore.getState();
+  useDocumentsStore.setState(docs => ({
+    documents: docs.documents.map(doc =>
+      doc.id === activeId ? { ...doc, modified: Date.now() } : doc
+    ),
+  }));
+});
+
+/**
+ * Open the last used map on startup, creating the first document
+ * (from the pre-documents single map, if there is one) when none exist.
+ */
+const initializeDocuments = () => {
+  const { documents, activeId, openDocument } = useDocumentsStore.getState();
+
+  if (documents.length === 0) {
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const document = newDocument(legacy ? 'My Map' : DEFAULT_TITLE);
+    if (legacy) {
+      localStorage.setItem(getMapStorageKey(document.id), legacy);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+    useDocumentsStore.setState({ documents: [document] });
+    openDocument(document.id);
+    return;
+  }
+
+  const last = documents.find(doc => doc.id === activeId)
+    ?? [...documents].sort((a, b) => b.modified - a.modified)[0];
+  openDocument(last.id);
+};
+
+initializeDocuments();
+
+export { useDocumentsStore };
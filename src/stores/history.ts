@@ -0,0 +1,80 @@
+/**
+ * MapItOut History - Undo/Redo Stacks
+ *
+ * This file contains the pure helpers behind the map store's undo/redo support.
+ * Every map mutation records a snapshot of the nodes Map taken before the change.
+ * Snapshots share unchanged node objects, so nodes must never be mutated in place.
+ *
+ * Update when: Changing history size, grouping rules, or what a snapshot contains.
+ */
+
+import type { HistoryEntry, HistoryState, Node } from '../types';
+
+// Oldest entries are dropped once the undo stack grows past this size
+export const MAX_HISTORY_SIZE = 100;
+
+export interface HistorySnapshot {
+  nodes: Map<string, Node>;
+  selectedId: string | null;
+}
+
+export function createHistory(): HistoryState {
+  return { past: [], future: [] };
+}
+
+/**
+ * Push a new entry onto the undo stack and clear the redo stack.
+ * If the entry shares its mergeKey with the previous entry, the previous
+ * entry is kept as-is so the whole run undoes as a single step.
+ */
+export function recordHistory(history: HistoryState, entry: HistoryEntry): HistoryState {
+  const last = history.past[history.past.length - 1];
+  if (entry.mergeKey && last?.mergeKey === entry.mergeKey && history.future.length === 0) {
+    return history;
+  }
+
+  const past = [...history.past, entry];
+  if (past.length > MAX_HISTORY_SIZE) {
+    past.splice(0, past.length - MAX_HISTORY_SIZE);
+  }
+
+  return { past, future: [] };
+}
+
+/**
+ * Step back one entry. Returns the snapshot to restore, or null if there is nothing to undo.
+ */
+export function undoHistory(
+  history: HistoryState,
+  current: HistorySnapshot
+): { history: HistoryState; snapshot: HistorySnapshot } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, ...current }],
+    },
+    snapshot: { nodes: entry.nodes, selectedId: entry.selectedId },
+  };
+}
+
+/**
+ * Step forward one entry. Returns the snapshot to restore, or null if there is nothing to redo.
+ */
+export function redoHistory(
+  history: HistoryState,
+  current: HistorySnapshot
+): { history: HistoryState; snapshot: HistorySnapshot } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, ...current }],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: { nodes: entry.nodes, selectedId: entry.selectedId },
+  };
+}
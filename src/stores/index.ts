@@ -8,4 +8,6 @@
  */
 
 export { useMapStore } from './map-store';
-export { useUIStore } from './ui-store'; 
\ No newline at end of file
+export { useUIStore } from './ui-store';
+export { useDocumentsStore } from './documents-store';
+export { useKeymapStore } from './keymap-store';
\ No newline at end of file
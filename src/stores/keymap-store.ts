@@ -0,0 +1,72 @@
+/**
+ * MapItOut Keymap Store
+ *
+ * This file contains the Zustand store for the user's keyboard shortcuts.
+ * Only rebound commands are stored; every other command keeps the default keys
+ * it was registered with, so changed defaults still reach users who never
+ * touched them. Persisted under `mapitout-keymap`; malformed entries are dropped on load.
+ *
+ * Update when: Changing how custom shortcuts are stored.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { KeymapState } from '../types';
+import { getCommand } from '../commands/registry';
+
+const sameKeys = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((key, i) => key === b[i]);
+
+// Keep only well-formed bindings, so a corrupted or hand-edited entry can't break keyboard input
+const sanitizeBindings = (raw: unknown): Record<string, string[]> => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {};
+  const bindings: Record<string, string[]> = {};
+  Object.entries(raw).forEach(([commandId, keys]) => {
+    if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) bindings[commandId] = keys;
+  });
+  return bindings;
+};
+
+const useKeymapStore = create<KeymapState>()(
+  persist(
+    (set) => ({
+      bindings: {},
+
+      setBindings: (commandId: string, keys: string[]) => {
+        set(state => {
+          const bindings = { ...state.bindings };
+          // Binding a command back to its defaults is the same as resetting it
+          if (sameKeys(keys, getCommand(commandId)?.keys ?? [])) {
+            delete bindings[commandId];
+          } else {
+            bindings[commandId] = keys;
+          }
+          return { bindings };
+        });
+      },
+
+      resetBindings: (commandId: string) => {
+        set(state => {
+          const bindings = { ...state.bindings };
+          delete bindings[commandId];
+          return { bindings };
+        });
+      },
+
+      resetAll: () => {
+        set({ bindings: {} });
+      },
+    }),
+    {
+      name: 'mapitout-keymap',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ bindings: state.bindings }),
+      merge: (persisted, current) => ({
+        ...current,
+        bindings: sanitizeBindings((persisted as Record<string, unknown> | undefined)?.bindings),
+      }),
+    }
+  )
+);
+
+export { useKeymapStore };
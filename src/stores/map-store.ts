@@ -1,113 +1,397 @@
 /**
  * MapItOut Main Store - Simplified
- * 
+ *
  * This file contains the primary Zustand store for managing the tree map state.
  * Simplified to focus on parent/child relationships with calculated positions.
- * 
+ * All node changes go through commit() so they land on the undo/redo history.
+ * Each map is persisted under its own key; the documents store picks the key
+ * and rehydrates this store when switching maps.
+ *
  * Update when: Adding new state properties, modifying node operations, or changing store structure.
  */
 
 import { create } from 'zustand';
 import { nanoid } from 'nanoid';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { MapState, Node } from '../types';
+import type { EdgeStyle, LayoutType, MapState, Node, OutlineItem, ThemeKey } from '../types';
+import { createHistory, recordHistory, undoHistory, redoHistory } from './history';
+import { expandAncestors, findVisibleAncestor, getNodeDepths, moveNodeInTree, removeSubtree } from '../utils/tree-operations';
+import { attachOutline, nodesFromOutline } from '../utils/formats/outline';
+import { normalizeNodeList } from '../utils/formats/mapitout-file';
+import { mergeNodeStyle, sanitizeNodeStyle } from '../utils/node-style';
+import { mergeNodeContent } from '../utils/node-content';
+import { DEFAULT_THEME, isThemeKey } from '../utils/themes';
+import { isLayoutType } from '../utils/layout-engines';
+import { isEdgeStyle } from '../utils/connection-renderer';
+import { DEFAULT_NODE_MAX_WIDTH, isNodeWidth } from '../utils/node-metrics';
+
+// Depth of nested batch() calls; while > 0, commits don't record their own history entries
+let batchDepth = 0;
+
+// Style, tags and other node content are re-checked on load, so hand-edited storage can't break rendering
+const restoreNode = (node: Node): Node => {
+  const { style, ...restored } = mergeNodeContent(node, {});
+  const safeStyle = sanitizeNodeStyle(style);
+  return safeStyle ? { ...restored, style: safeStyle } : restored;
+};
 
 const useMapStore = create<MapState>()(
   persist(
-    (set, get) => ({
-      // Initial State
-      nodes: new Map(),
-      selectedId: null,
-      layoutType: 'center',
-
-      // Actions
-      createNode: (parentId: string, text: string = 'New Node') => {
-        const newNode: Node = {
-          id: nanoid(),
-          text,
-          children: [],
-          parent: parentId || null,
-          metadata: {
-            created: Date.now(),
-            modified: Date.now(),
-            collapsed: false,
-          },
-        };
+    (set, get) => {
+      /**
+       * Apply a node change and record the previous state on the undo stack.
+       * Nodes are replaced, never mutated, so history snapshots stay intact.
+       */
+      const commit = (label: string, changes: Partial<MapState>, mergeKey?: string) => {
+        const state = get();
+        // An empty map is re-seeded with a root right away, so it's not worth returning to
+        const skipHistory = batchDepth > 0 || state.nodes.size === 0;
+
+        set({
+          ...changes,
+          history: skipHistory
+            ? state.history
+            : recordHistory(state.history, {
+                label,
+                nodes: state.nodes,
+                selectedId: state.selectedId,
+                mergeKey,
+              }),
+        });
+      };
 
-        set(state => {
-          const newNodes = new Map(state.nodes);
+      return {
+        // Initial State
+        nodes: new Map(),
+        selectedId: null,
+        layoutType: 'center',
+        edgeStyle: 'curved',
+        theme: DEFAULT_THEME,
+        nodeWidth: DEFAULT_NODE_MAX_WIDTH,
+        history: createHistory(),
+
+        // Actions
+        createNode: (parentId: string, text: string = 'New Node') => {
+          const newNode: Node = {
+            id: nanoid(),
+            text,
+            children: [],
+            parent: parentId || null,
+            metadata: {
+              created: Date.now(),
+              modified: Date.now(),
+              collapsed: false,
+            },
+          };
+
+          const newNodes = new Map(get().nodes);
           newNodes.set(newNode.id, newNode);
-          
+
           // Update parent's children array if parent exists
           if (parentId) {
             const parent = newNodes.get(parentId);
             if (parent) {
-              parent.children.push(newNode.id);
-              parent.metadata.modified = Date.now();
+              // Expand a collapsed parent so the new node is visible
+              newNodes.set(parentId, {
+                ...parent,
+                children: [...parent.children, newNode.id],
+                metadata: { ...parent.metadata, modified: Date.now(), collapsed: false },
+              });
             }
           }
-          
-          return { 
-            nodes: newNodes, 
-            selectedId: newNode.id 
+
+          commit('Create node', { nodes: newNodes, selectedId: newNode.id });
+        },
+
+        updateNode: (id, updates, options = {}) => {
+          const node = get().nodes.get(id);
+          if (!node) return;
+
+          // Don't allow updating id, children, or parent directly
+          const safeUpdates: Partial<Node> = { ...updates };
+          delete safeUpdates.id;
+          delete safeUpdates.children;
+          delete safeUpdates.parent;
+
+          const newNodes = new Map(get().nodes);
+          newNodes.set(id, {
+            ...node,
+            ...safeUpdates,
+            metadata: { ...node.metadata, ...safeUpdates.metadata, modified: Date.now() },
+          });
+
+          commit('Edit node', { nodes: newNodes }, options.mergeKey);
+        },
+
+        updateNodeStyle: (id, changes, options = {}) => {
+          const node = get().nodes.get(id);
+          if (!node) return;
+
+          const updated: Node = {
+            ...node,
+            style: mergeNodeStyle(node.style, changes),
+            metadata: { ...node.metadata, modified: Date.now() },
           };
-        });
-      },
+          // Cleared fields are dropped so unstyled nodes carry no style at all
+          if (!updated.style) delete updated.style;
+          const newNodes = new Map(get().nodes);
+          newNodes.set(id, updated);
+
+          commit('Style node', { nodes: newNodes }, options.mergeKey);
+        },
+
+        updateNodeContent: (id, changes, options = {}) => {
+          const node = get().nodes.get(id);
+          if (!node) return;
+
+          const updated = mergeNodeContent(node, changes);
+          updated.metadata = { ...node.metadata, modified: Date.now() };
+          const newNodes = new Map(get().nodes);
+          newNodes.set(id, updated);
 
-      updateNode: (id: string, updates: Partial<Node>) => {
-        set((state) => {
-          const newNodes = new Map(state.nodes);
-          const node = newNodes.get(id);
-          
-          if (node) {
-            // Don't allow updating id, children, or parent directly
-            const { id: _, children: __, parent: ___, ...safeUpdates } = updates;
-            Object.assign(node, safeUpdates);
-            node.metadata.modified = Date.now();
+          const label = 'tags' in changes ? 'Edit tags'
+            : 'task' in changes ? 'Edit task'
+            : 'links' in changes ? 'Edit links' : 'Edit note';
+          commit(label, { nodes: newNodes }, options.mergeKey);
+        },
+
+        setNodes: (nodes, label, selectedId = get().selectedId) => {
+          commit(label, { nodes, selectedId });
+        },
+
+        insertOutline: (parentId: string | null, items: OutlineItem[], label: string) => {
+          if (items.length === 0) return;
+
+          if (parentId === null) {
+            const { nodes, rootId } = nodesFromOutline(items);
+            commit(label, { nodes, selectedId: rootId });
+            return;
           }
 
-          return { nodes: newNodes };
-        });
-      },
+          if (!get().nodes.has(parentId)) return;
+          const { nodes, ids } = attachOutline(get().nodes, parentId, items);
+          commit(label, { nodes, selectedId: ids[0] });
+        },
 
-      selectNode: (id: string | null) => {
-        set({ selectedId: id });
-      },
+        deleteNode: (id: string) => {
+          const node = get().nodes.get(id);
+          if (!node) return;
 
-      setLayoutType: (type: 'center' | 'top') => {
-        set({ layoutType: type });
-      },
-    }),
+          const { selectedId } = get();
+          const newNodes = removeSubtree(get().nodes, id);
+          // Keep the selection if it survived, otherwise fall back to the deleted node's parent
+          const nextSelectedId = selectedId && newNodes.has(selectedId) ? selectedId : node.parent;
+
+          commit('Delete node', { nodes: newNodes, selectedId: nextSelectedId });
+        },
+
+        moveNode: (id: string, newParentId: string, index: number) => {
+          const { nodes } = get();
+          const node = nodes.get(id);
+          if (!node) return;
+
+          // Skip no-op moves so they don't clutter the history
+          if (node.parent === newParentId && nodes.get(newParentId)?.children.indexOf(id) === index) return;
+
+          const newNodes = moveNodeInTree(nodes, id, newParentId, index);
+          if (!newNodes) return;
+
+          commit('Move node', { nodes: newNodes });
+        },
+
+        reorderChild: (id: string, index: number) => {
+          const node = get().nodes.get(id);
+          if (!node?.parent) return;
+
+          const siblings = get().nodes.get(node.parent)?.children ?? [];
+          const clampedIndex = Math.max(0, Math.min(index, siblings.length - 1));
+          if (siblings.indexOf(id) === clampedIndex) return;
+
+          const newNodes = moveNodeInTree(get().nodes, id, node.parent, clampedIndex);
+          if (!newNodes) return;
+
+          commit('Reorder node', { nodes: newNodes });
+        },
+
+        promoteNode: (id: string) => {
+          const { nodes } = get();
+          const node = nodes.get(id);
+          const parent = node?.parent ? nodes.get(node.parent) : undefined;
+          // Children of the root can't be outdented without creating a second root
+          if (!parent?.parent) return;
+
+          const grandparent = nodes.get(parent.parent);
+          if (!grandparent) return;
+
+          const newNodes = moveNodeInTree(nodes, id, grandparent.id, grandparent.children.indexOf(parent.id) + 1);
+          if (!newNodes) return;
+
+          commit('Outdent node', { nodes: newNodes });
+        },
+
+        demoteNode: (id: string) => {
+          const { nodes } = get();
+          const node = nodes.get(id);
+          const parent = node?.parent ? nodes.get(node.parent) : undefined;
+          if (!parent) return;
+
+          // The previous sibling becomes the new parent
+          const index = parent.children.indexOf(id);
+          if (index <= 0) return;
+          const newParent = nodes.get(parent.children[index - 1]);
+          if (!newParent) return;
+
+          const newNodes = moveNodeInTree(nodes, id, newParent.id, newParent.children.length);
+          if (!newNodes) return;
+
+          commit('Indent node', { nodes: newNodes });
+        },
+
+        toggleCollapsed: (id: string) => {
+          const node = get().nodes.get(id);
+          if (!node || node.children.length === 0) return;
+
+          const collapsed = !node.metadata.collapsed;
+          const newNodes = new Map(get().nodes);
+          newNodes.set(id, { ...node, metadata: { ...node.metadata, collapsed } });
+
+          commit(collapsed ? 'Collapse node' : 'Expand node', { nodes: newNodes });
+        },
+
+        collapseToDepth: (depth: number) => {
+          const { nodes, selectedId } = get();
+          const depths = getNodeDepths(nodes);
+          const newNodes = new Map(nodes);
+          let changed = false;
+
+          // Nodes at the target depth collapse, everything above it opens up
+          nodes.forEach(node => {
+            if (node.children.length === 0) return;
+            const collapsed = (depths.get(node.id) ?? 0) >= depth;
+            if (node.metadata.collapsed === collapsed) return;
+            newNodes.set(node.id, { ...node, metadata: { ...node.metadata, collapsed } });
+            changed = true;
+          });
+          if (!changed) return;
+
+          commit(`Collapse to depth ${depth}`, {
+            nodes: newNodes,
+            selectedId: selectedId ? findVisibleAncestor(newNodes, selectedId) : null,
+          });
+        },
+
+        expandAll: () => {
+          const { nodes } = get();
+          const newNodes = new Map(nodes);
+          let changed = false;
+
+          nodes.forEach(node => {
+            if (!node.metadata.collapsed) return;
+            newNodes.set(node.id, { ...node, metadata: { ...node.metadata, collapsed: false } });
+            changed = true;
+          });
+          if (!changed) return;
+
+          commit('Expand all', { nodes: newNodes });
+        },
+
+        revealNode: (id: string) => {
+          const { nodes } = get();
+          const newNodes = expandAncestors(nodes, [id]);
+          if (newNodes === nodes) return;
+
+          commit('Reveal node', { nodes: newNodes });
+        },
+
+        selectNode: (id: string | null) => {
+          set({ selectedId: id });
+        },
+
+        setLayoutType: (type: LayoutType) => {
+          set({ layoutType: type });
+        },
+
+        setEdgeStyle: (style: EdgeStyle) => {
+          set({ edgeStyle: style });
+        },
+
+        setTheme: (theme: ThemeKey) => {
+          set({ theme });
+        },
+
+        setNodeWidth: (width: number) => {
+          set({ nodeWidth: width });
+        },
+
+        // History
+        undo: () => {
+          const { history, nodes, selectedId } = get();
+          const result = undoHistory(history, { nodes, selectedId });
+          if (!result) return;
+          set({ history: result.history, ...result.snapshot });
+        },
+
+        redo: () => {
+          const { history, nodes, selectedId } = get();
+          const result = redoHistory(history, { nodes, selectedId });
+          if (!result) return;
+          set({ history: result.history, ...result.snapshot });
+        },
+
+        batch: (label, fn) => {
+          const before = get();
+          batchDepth++;
+          try {
+            fn();
+          } finally {
+            batchDepth--;
+          }
+
+          // Only the outermost batch records, and only if something actually changed
+          if (batchDepth > 0 || get().nodes === before.nodes || before.nodes.size === 0) return;
+          set({
+            history: recordHistory(before.history, {
+              label,
+              nodes: before.nodes,
+              selectedId: before.selectedId,
+            }),
+          });
+        },
+      };
+    },
     {
-      name: 'mapitout-store',
+      // Replaced with the active map's key by the documents store before hydrating
+      name: 'mapitout-map',
       storage: createJSONStorage(() => localStorage),
+      skipHydration: true,
       // Persist nodes as array of entries
       partialize: (state) => ({
         nodes: Array.from(state.nodes.entries()),
         layoutType: state.layoutType,
+        edgeStyle: state.edgeStyle,
+        theme: state.theme,
+        nodeWidth: state.nodeWidth,
       }),
-      // Always rehydrate nodes as Map, even if old object format is present
+      // Always rehydrate nodes as Map, whichever node list shape older saves used.
+      // A map that was never saved has nothing persisted and starts out empty.
       merge: (persisted, current) => {
-        let nodesArr = [];
-        const persistedObj = persisted as Record<string, any>;
-        if (Array.isArray(persistedObj.nodes)) {
-          nodesArr = persistedObj.nodes;
-        } else if (persistedObj.nodes && typeof persistedObj.nodes === 'object') {
-          // Handle legacy object format
-          nodesArr = Object.entries(persistedObj.nodes);
-        }
+        const persistedObj = (persisted ?? {}) as Record<string, unknown>;
+        const nodeList = normalizeNodeList(persistedObj.nodes) as Node[];
         return {
-          nodes: new Map(nodesArr),
-          selectedId: persistedObj.selectedId ?? current.selectedId,
-          layoutType: persistedObj.layoutType ?? current.layoutType,
-          createNode: current.createNode,
-          updateNode: current.updateNode,
-          selectNode: current.selectNode,
-          setLayoutType: current.setLayoutType,
+          // Actions come from the current store; history starts over for each loaded map
+          ...current,
+          history: createHistory(),
+          nodes: new Map(nodeList.map(node => [node.id, restoreNode(node)])),
+          selectedId: (persistedObj.selectedId as string | null | undefined) ?? null,
+          layoutType: isLayoutType(persistedObj.layoutType) ? persistedObj.layoutType : current.layoutType,
+          edgeStyle: isEdgeStyle(persistedObj.edgeStyle) ? persistedObj.edgeStyle : current.edgeStyle,
+          theme: isThemeKey(persistedObj.theme) ? persistedObj.theme : current.theme,
+          // Maps saved before node widths existed keep the width they were drawn with
+          nodeWidth: isNodeWidth(persistedObj.nodeWidth) ? persistedObj.nodeWidth : DEFAULT_NODE_MAX_WIDTH,
         };
       },
     }
   )
 );
 
-export { useMapStore }; 
\ No newline at end of file
+export { useMapStore };
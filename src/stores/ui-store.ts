@@ -2,22 +2,49 @@
  * MapItOut UI Store - Simplified
  * 
  * This file contains the Zustand store for managing UI state and interactions.
- * Simplified to focus on text editing and basic UI state.
+ * Simplified to focus on text editing, node dragging, the pan/zoom view and basic UI state
+ * such as the document sidebar, the node details panel, modal dialogs, the search panel
+ * and the tag legend with its filter.
  * 
  * Update when: Adding new UI state properties or modifying interaction behaviors.
  */
 
 import { create } from 'zustand';
-import type { UIState } from '../types';
+import type { DialogType, DragState, SearchState, UIState, ViewTransform } from '../types';
 
 interface UIStore extends UIState {
   startEditing: (nodeId: string) => void;
   stopEditing: () => void;
+  startDrag: (nodeId: string, origin: { x: number; y: number }) => void;
+  updateDrag: (updates: Partial<DragState>) => void;
+  endDrag: () => void;
+  setView: (view: ViewTransform) => void;
+  setViewportSize: (size: { width: number; height: number }) => void;
+  setSidebarOpen: (open: boolean) => void;
+  setDetailsOpen: (open: boolean) => void;
+  setTagsOpen: (open: boolean) => void;
+  toggleTagFilter: (tag: string) => void;
+  clearTagFilter: () => void;
+  openDialog: (dialog: DialogType) => void;
+  closeDialog: () => void;
+  openSearch: () => void;
+  closeSearch: () => void;
+  updateSearch: (updates: Partial<SearchState>) => void;
 }
 
 const useUIStore = create<UIStore>((set) => ({
   isEditing: false,
   editingNodeId: null,
+  drag: null,
+  view: { x: 0, y: 0, zoom: 1 },
+  viewportSize: { width: 1600, height: 800 },
+  // Open on startup so recent maps are listed
+  sidebarOpen: true,
+  detailsOpen: false,
+  tagsOpen: false,
+  tagFilter: [],
+  dialog: null,
+  search: null,
 
   // Actions
   startEditing: (nodeId: string) => {
@@ -27,6 +54,75 @@ const useUIStore = create<UIStore>((set) => ({
   stopEditing: () => {
     set({ isEditing: false, editingNodeId: null });
   },
+
+  startDrag: (nodeId: string, origin: { x: number; y: number }) => {
+    set({ drag: { nodeId, origin, active: false, dropTarget: null } });
+  },
+
+  updateDrag: (updates: Partial<DragState>) => {
+    set(state => (state.drag ? { drag: { ...state.drag, ...updates } } : {}));
+  },
+
+  endDrag: () => {
+    set({ drag: null });
+  },
+
+  setView: (view: ViewTransform) => {
+    set({ view });
+  },
+
+  setViewportSize: (size: { width: number; height: number }) => {
+    set({ viewportSize: size });
+  },
+
+  setSidebarOpen: (open: boolean) => {
+    set({ sidebarOpen: open });
+  },
+
+  setDetailsOpen: (open: boolean) => {
+    set({ detailsOpen: open });
+  },
+
+  setTagsOpen: (open: boolean) => {
+    set({ tagsOpen: open });
+  },
+
+  // Tags match ignoring case, so the filter does too
+  toggleTagFilter: (tag: string) => {
+    set(state => {
+      const key = tag.toLowerCase();
+      const active = state.tagFilter.some(entry => entry.toLowerCase() === key);
+      return {
+        tagFilter: active
+          ? state.tagFilter.filter(entry => entry.toLowerCase() !== key)
+          : [...state.tagFilter, tag],
+      };
+    });
+  },
+
+  clearTagFilter: () => {
+    set({ tagFilter: [] });
+  },
+
+  openDialog: (dialog: DialogType) => {
+    set({ dialog });
+  },
+
+  closeDialog: () => {
+    set({ dialog: null });
+  },
+
+  openSearch: () => {
+    set(state => ({ search: state.search ?? { query: '', useRegex: false, filter: false } }));
+  },
+
+  closeSearch: () => {
+    set({ search: null });
+  },
+
+  updateSearch: (updates: Partial<SearchState>) => {
+    set(state => (state.search ? { search: { ...state.search, ...updates } } : {}));
+  },
 }));
 
 export { useUIStore }; 
\ No newline at end of file
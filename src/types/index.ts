@@ -17,6 +17,57 @@ export interface Node {
     modified: number;      // Last modification timestamp
     collapsed: boolean;    // Whether node is collapsed
   };
+  style?: NodeStyle;       // Per-node look; unset uses the tier colors and default shape
+  note?: string;           // Long-form Markdown note
+  links?: NodeLink[];      // Hyperlinks, in the order they were added
+  task?: TaskState;        // Checkbox state; unset means the node isn't a task
+  tags?: string[];         // Classifying labels, e.g. 'owner:alice'; unique ignoring case
+}
+
+export interface NodeLink {
+  url: string;             // http(s) or mailto URL
+  title?: string;          // Shown instead of the URL
+}
+
+export type TaskState = 'todo' | 'done';
+
+// The node fields edited in the details panel
+export type NodeContent = Pick<Node, 'note' | 'links' | 'task' | 'tags'>;
+
+export interface TaskProgress {
+  done: number;            // Finished tasks below a node
+  total: number;           // All tasks below a node
+}
+
+export interface TagCount {
+  tag: string;             // Spelled as on the first node that has it
+  count: number;           // Nodes with the tag
+}
+
+export type NodeShape = 'rounded' | 'pill' | 'rectangle' | 'ellipse' | 'underline';
+
+export interface NodeStyle {
+  borderColor?: string;    // #rrggbb, replaces the tier color
+  fillColor?: string;      // #rrggbb, drawn translucent so text stays readable
+  shape?: NodeShape;       // Default 'rounded'
+  icon?: string;           // Emoji shown before the text
+  bold?: boolean;
+  large?: boolean;         // Larger text
+  highlight?: boolean;     // Marker glow around the node
+}
+
+// Format-neutral tree used for importing and exporting maps as text
+export interface OutlineItem {
+  text: string;
+  children: OutlineItem[];  // In display order
+  collapsed?: boolean;      // Formats without these leave them unset
+  created?: number;
+  modified?: number;
+  style?: NodeStyle;
+  note?: string;
+  links?: NodeLink[];
+  task?: TaskState;
+  tags?: string[];
 }
 
 export interface Position {
@@ -24,27 +75,220 @@ export interface Position {
   y: number;              // Calculated Y coordinate
   width: number;          // Text width
   height: number;         // Node height
+  entry?: 'side';         // Connect from the side facing the parent instead of the layout's main axis
+}
+
+export interface Bounds {
+  x: number;              // Left edge
+  y: number;              // Top edge
+  width: number;
+  height: number;
+}
+
+export interface ViewTransform {
+  x: number;              // Screen offset of the map origin
+  y: number;
+  zoom: number;           // Scale factor, 1 = 100%
 }
 
 export interface LayoutEngine {
-  calculatePositions(nodes: Map<string, Node>): Map<string, Position>;
+  calculatePositions(nodes: Map<string, Node>, measure: NodeMeasureOptions): Map<string, Position>;
+}
+
+// What node sizes depend on besides the nodes themselves
+export interface NodeMeasureOptions {
+  fontFamily: string;            // The theme's font
+  maxWidth: number;              // Boxes wrap their text to stay within this width (the map's node width)
+}
+
+export interface LayoutDefinition {
+  key: LayoutType;
+  label: string;                 // Short name shown in the layout switcher
+  icon: string;
+  description: string;
+  engine: LayoutEngine;
+  siblingAxis: 'x' | 'y';        // Direction siblings are spread along (drives drop zones)
+  connectionAxis: 'horizontal' | 'vertical' | 'auto'; // Which node sides edges attach to
+}
+
+export interface ThemeDefinition {
+  key: ThemeKey;
+  label: string;                 // Shown in the theme switcher and export dialog
+  description: string;
+  background: string;            // Canvas and export background, #rrggbb
+  textColor: string;             // Node text
+  textShadow: boolean;           // Shadow under node text (for light text on tinted fills)
+  tierColors: string[];          // Node border / edge color per depth, root first; the last repeats
+  edgeColor: string | null;      // One color for every edge, or null to use the child's tier color
+  fillOpacity: number;           // Node fills are the tier color at this opacity
+  fontFamily: string;            // Node text font; node sizes are measured in it
+}
+
+export type MapFormatKey =
+  | 'mapitout' | 'markdown' | 'opml' | 'freemind'
+  | 'mermaid-mindmap' | 'mermaid-flowchart' | 'dot';
+
+export interface ImportedMap {
+  title?: string;                // Formats without a title use the file name
+  nodes: Map<string, Node>;
+  rootId: string;
+  layoutType?: LayoutType;       // Only the native format carries view settings
+  edgeStyle?: EdgeStyle;
+  theme?: ThemeKey;
+  nodeWidth?: number;
+}
+
+export interface ExportableMap {
+  title: string;
+  nodes: Map<string, Node>;
+  layoutType: LayoutType;
+  edgeStyle: EdgeStyle;
+  theme: ThemeKey;
+  nodeWidth: number;
+}
+
+export interface MapFormat {
+  key: MapFormatKey;
+  label: string;                 // Shown in import/export menus
+  extensions: string[];          // Lower-case, with the dot; the first is used when saving
+  mimeType: string;
+  read?: (text: string) => ImportedMap;      // Throws MapFileError for unreadable files
+  write?: (map: ExportableMap) => string;
+  diagram?: boolean;             // Diagram code, previewed and copied in the diagram dialog
+}
+
+export interface Command {
+  id: string;                    // Stable id, e.g. 'node.createChild'
+  label: string;                 // Shown in the command palette
+  category: string;              // Palette group, e.g. 'Node', 'View', 'File'
+  keys?: string[];               // Default shortcuts like 'Ctrl+Shift+Z' (the keymap can override them)
+  global?: boolean;              // Shortcuts also work while typing in a text field
+  when?: () => boolean;          // Whether the command applies right now (default: always)
+  run: () => void;
+}
+
+export interface KeymapState {
+  bindings: Record<string, string[]>; // Shortcuts per command id, only for rebound commands ([] = unbound)
+
+  // Actions
+  setBindings: (commandId: string, keys: string[]) => void;
+  resetBindings: (commandId: string) => void; // Back to the command's default keys
+  resetAll: () => void;
+}
+
+export interface HistoryEntry {
+  label: string;                 // Human-readable name of the change ("Create node")
+  nodes: Map<string, Node>;      // Snapshot of nodes before the change
+  selectedId: string | null;     // Selection before the change
+  mergeKey?: string;             // Consecutive entries with the same key collapse into one
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];          // Undo stack, most recent last
+  future: HistoryEntry[];        // Redo stack, most recent last
+}
+
+export interface UpdateOptions {
+  mergeKey?: string;             // Group with previous edits sharing this key (e.g. typing)
 }
 
 export interface MapState {
   nodes: Map<string, Node>;      // All nodes in the map
   selectedId: string | null;     // Currently selected node
-  layoutType: 'center' | 'top';  // Only two layout types
+  layoutType: LayoutType;        // Key into the layout registry
+  edgeStyle: EdgeStyle;          // How parent→child connections are drawn
+  theme: ThemeKey;               // Key into the theme registry (colors and font)
+  nodeWidth: number;             // Node text wraps to keep boxes within this width
+  history: HistoryState;         // Undo/redo stacks (session only, not persisted)
   
   // Actions
   createNode: (parentId: string, text?: string) => void;
-  updateNode: (id: string, updates: Partial<Node>) => void;
+  updateNode: (id: string, updates: Partial<Node>, options?: UpdateOptions) => void;
+  updateNodeStyle: (id: string, changes: Partial<NodeStyle> | null, options?: UpdateOptions) => void; // undefined clears a field, null the whole style
+  updateNodeContent: (id: string, changes: NodeContent, options?: UpdateOptions) => void; // undefined or empty clears a field
+  setNodes: (nodes: Map<string, Node>, label: string, selectedId?: string | null) => void;
+  insertOutline: (parentId: string | null, items: OutlineItem[], label: string) => void; // null parent replaces the map
+  deleteNode: (id: string) => void;
+  moveNode: (id: string, newParentId: string, index: number) => void;
+  reorderChild: (id: string, index: number) => void;
+  promoteNode: (id: string) => void;   // Outdent: become the parent's next sibling
+  demoteNode: (id: string) => void;    // Indent: become the previous sibling's last child
+  toggleCollapsed: (id: string) => void;
+  collapseToDepth: (depth: number) => void; // Show nodes down to `depth`, hide everything below
+  expandAll: () => void;
+  revealNode: (id: string) => void;         // Expand collapsed ancestors so the node is visible
   selectNode: (id: string | null) => void;
-  setLayoutType: (type: 'center' | 'top') => void;
+  setLayoutType: (type: LayoutType) => void;
+  setEdgeStyle: (style: EdgeStyle) => void;
+  setTheme: (theme: ThemeKey) => void;
+  setNodeWidth: (width: number) => void;
+
+  // History
+  undo: () => void;
+  redo: () => void;
+  batch: (label: string, fn: () => void) => void;
+}
+
+export interface MapDocument {
+  id: string;          // Also names the map's storage key
+  title: string;
+  created: number;
+  modified: number;    // Last change to the map's nodes or title
+}
+
+export interface DocumentsState {
+  documents: MapDocument[];      // Every saved map
+  activeId: string | null;       // Map currently loaded into the map store
+
+  // Actions
+  createDocument: (title?: string) => string;   // Create an empty map and open it
+  renameDocument: (id: string, title: string) => void;
+  duplicateDocument: (id: string) => string | null;
+  deleteDocument: (id: string) => void;         // Opens another map if the active one is deleted
+  openDocument: (id: string) => void;
+}
+
+export type DropPlacement = 'before' | 'after' | 'child';
+
+export interface DropTarget {
+  targetId: string;         // Node under the pointer
+  placement: DropPlacement; // Where the dragged node goes relative to the target
+  parentId: string;         // Resulting parent of the dragged node
+  index: number;            // Resulting index among the parent's children
+  valid: boolean;           // False for drops that would create a cycle
+}
+
+export interface DragState {
+  nodeId: string;                    // Node being dragged (with its subtree)
+  origin: { x: number; y: number };  // Client coordinates where the drag started
+  active: boolean;                   // True once the pointer has moved past the drag threshold
+  dropTarget: DropTarget | null;     // Current drop target, if any
 }
 
 export interface UIState {
   isEditing: boolean;     // Text editing state
   editingNodeId: string | null; // Node being edited
+  drag: DragState | null; // Node drag-and-drop in progress
+  view: ViewTransform;    // Pan and zoom shared by the edge canvas and the node container
+  viewportSize: { width: number; height: number }; // Size of the visible canvas area
+  sidebarOpen: boolean;   // Document sidebar visibility
+  detailsOpen: boolean;   // Node details panel (tags, note, links, task) visibility
+  tagsOpen: boolean;      // Tag legend panel visibility
+  tagFilter: string[];    // Show only nodes with any of these tags (empty: no filter)
+  dialog: DialogType | null; // Modal dialog currently shown
+  search: SearchState | null; // Search panel, null while closed
+}
+
+export interface SearchState {
+  query: string;
+  useRegex: boolean;      // Treat the query as a regular expression instead of plain text
+  filter: boolean;        // Dim non-matching nodes and reveal matches hidden in collapsed branches
 }
 
-export type LayoutType = 'center' | 'top'; 
\ No newline at end of file
+export type DialogType = 'export' | 'diagram' | 'commands' | 'keybindings' | 'style';
+
+export type LayoutType = 'center' | 'top' | 'horizontal' | 'org' | 'radial' | 'fishbone';
+
+export type EdgeStyle = 'straight' | 'curved' | 'elbow' | 'branch';
+
+export type ThemeKey = 'dark' | 'light' | 'high-contrast' | 'print' | 'colorblind';
@@ -0,0 +1,287 @@
+/**
+ * MapItOut Connection Renderer
+ *
+ * This module turns parent→child relationships into edge shapes and draws them.
+ * Shapes are plain path commands so the live canvas and the exporters share
+ * exactly the same geometry. Four styles are supported:
+ * - straight: direct line between facing node edges
+ * - curved: bezier S-curve along the layout's main axis (see LayoutDefinition.connectionAxis)
+ * - elbow: orthogonal connector with a single bend
+ * - branch: filled, tapered curve that thins out with depth
+ *
+ * Update when: Adding edge styles, changing anchor points, or modifying edge colors/widths.
+ */
+
+import type { EdgeStyle, LayoutType, Node, Position, ThemeDefinition } from '../types';
+import { calculateNodeTier, getTierColor } from './tier-colors';
+import { getLayoutDefinition } from './layout-engines';
+
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export interface ConnectionShape {
+  fromId: string;
+  toId: string;
+  commands: PathCommand[];
+  color: string;
+  width: number;     // Stroke width (unused for filled shapes)
+  filled: boolean;   // Tapered branches are filled outlines instead of strokes
+}
+
+export interface ConnectionOptions {
+  layoutType: LayoutType;
+  edgeStyle: EdgeStyle;
+  theme: ThemeDefinition;   // Edge colors
+}
+
+type Point = { x: number; y: number };
+
+/**
+ * Edge styles in switcher order
+ */
+export const EDGE_STYLE_OPTIONS: { key: EdgeStyle; label: string; icon: string; description: string }[] = [
+  { key: 'curved', label: 'Curved', icon: '∿', description: 'Smooth bezier curves' },
+  { key: 'straight', label: 'Straight', icon: '╱', description: 'Direct straight lines' },
+  { key: 'elbow', label: 'Elbow', icon: '┐', description: 'Orthogonal connectors' },
+  { key: 'branch', label: 'Branch', icon: '🌿', description: 'Tapered organic branches' },
+];
+
+/**
+ * Whether a value (e.g. from a file) names an edge style.
+ */
+export function isEdgeStyle(value: unknown): value is EdgeStyle {
+  return EDGE_STYLE_OPTIONS.some(option => option.key === value);
+}
+
+// 'rail' edges leave the parent along the vertical axis and enter the child from the side
+type Axis = 'horizontal' | 'vertical' | 'rail';
+
+/**
+ * Resolve which sides an edge attaches to, from the layout's setting and the child's entry hint.
+ */
+function getConnectionAxis(layoutType: LayoutType, parent: Position, child: Position): Axis {
+  if (child.entry === 'side') return 'rail';
+
+  const { connectionAxis } = getLayoutDefinition(layoutType);
+  if (connectionAxis !== 'auto') return connectionAxis;
+
+  // Auto: follow whichever direction the child mostly lies in
+  return Math.abs(child.x - parent.x) >= Math.abs(child.y - parent.y) ? 'horizontal' : 'vertical';
+}
+
+/**
+ * Pick the points on the parent's and child's borders that face each other.
+ */
+function getAnchors(parent: Position, child: Position, axis: Axis): [Point, Point] {
+  if (axis === 'rail') {
+    const below = child.y >= parent.y ? 1 : -1;
+    const side = child.x >= parent.x ? 1 : -1;
+    return [
+      { x: parent.x, y: parent.y + below * parent.height / 2 },
+      { x: child.x - side * child.width / 2, y: child.y },
+    ];
+  }
+
+  if (axis === 'vertical') {
+    const direction = child.y >= parent.y ? 1 : -1;
+    return [
+      { x: parent.x, y: parent.y + direction * parent.height / 2 },
+      { x: child.x, y: child.y - direction * child.height / 2 },
+    ];
+  }
+
+  const direction = child.x >= parent.x ? 1 : -1;
+  return [
+    { x: parent.x + direction * parent.width / 2, y: parent.y },
+    { x: child.x - direction * child.width / 2, y: child.y },
+  ];
+}
+
+/**
+ * Control points for an S-curve that leaves and enters along the main axis.
+ */
+function getCurveControls(start: Point, end: Point, axis: Axis): [Point, Point] {
+  if (axis === 'rail') {
+    // Drop straight down the rail, then bend into the child
+    return [{ x: start.x, y: end.y }, { x: start.x, y: end.y }];
+  }
+  if (axis === 'vertical') {
+    const midY = start.y + (end.y - start.y) * 0.5;
+    return [{ x: start.x, y: midY }, { x: end.x, y: midY }];
+  }
+  const midX = start.x + (end.x - start.x) * 0.5;
+  return [{ x: midX, y: start.y }, { x: midX, y: end.y }];
+}
+
+function getStrokeWidth(tier: number): number {
+  // Thicker near the root
+  return Math.max(1.5, 3.5 - tier * 0.5);
+}
+
+function buildCommands(
+  start: Point,
+  end: Point,
+  axis: Axis,
+  edgeStyle: EdgeStyle,
+  tier: number
+): PathCommand[] {
+  switch (edgeStyle) {
+    case 'straight':
+      return [
+        { type: 'M', x: start.x, y: start.y },
+        { type: 'L', x: end.x, y: end.y },
+      ];
+
+    case 'elbow': {
+      // Single bend halfway along the main axis (or at the child's level for rails)
+      const bend = axis === 'rail'
+        ? [{ x: start.x, y: end.y }, { x: start.x, y: end.y }]
+        : axis === 'vertical'
+        ? [{ x: start.x, y: (start.y + end.y) / 2 }, { x: end.x, y: (start.y + end.y) / 2 }]
+        : [{ x: (start.x + end.x) / 2, y: start.y }, { x: (start.x + end.x) / 2, y: end.y }];
+      return [
+        { type: 'M', x: start.x, y: start.y },
+        { type: 'L', x: bend[0].x, y: bend[0].y },
+        { type: 'L', x: bend[1].x, y: bend[1].y },
+        { type: 'L', x: end.x, y: end.y },
+      ];
+    }
+
+    case 'branch': {
+      // Two offset curves joined into a closed, tapering outline
+      const startWidth = Math.max(3, 12 - (tier - 1) * 3);
+      const endWidth = Math.max(1.5, startWidth * 0.35);
+      const [cp1, cp2] = getCurveControls(start, end, axis);
+      const offset = (p: Point, amount: number): Point =>
+        axis === 'horizontal' ? { x: p.x, y: p.y + amount } : { x: p.x + amount, y: p.y };
+      const midWidth = (startWidth + endWidth) / 2;
+
+      const s1 = offset(start, -startWidth / 2);
+      const c1a = offset(cp1, -midWidth / 2);
+      const c1b = offset(cp2, -endWidth / 2);
+      const e1 = offset(end, -endWidth / 2);
+      const e2 = offset(end, endWidth / 2);
+      const c2a = offset(cp2, endWidth / 2);
+      const c2b = offset(cp1, midWidth / 2);
+      const s2 = offset(start, startWidth / 2);
+
+      return [
+        { type: 'M', x: s1.x, y: s1.y },
+        { type: 'C', x1: c1a.x, y1: c1a.y, x2: c1b.x, y2: c1b.y, x: e1.x, y: e1.y },
+        { type: 'L', x: e2.x, y: e2.y },
+        { type: 'C', x1: c2a.x, y1: c2a.y, x2: c2b.x, y2: c2b.y, x: s2.x, y: s2.y },
+        { type: 'Z' },
+      ];
+    }
+
+    case 'curved':
+    default: {
+      const [cp1, cp2] = getCurveControls(start, end, axis);
+      return [
+        { type: 'M', x: start.x, y: start.y },
+        { type: 'C', x1: cp1.x, y1: cp1.y, x2: cp2.x, y2: cp2.y, x: end.x, y: end.y },
+      ];
+    }
+  }
+}
+
+/**
+ * Build one shape per visible parent→child link, colored by the child's tier (or the theme's edge color).
+ */
+export function getConnectionShapes(
+  nodes: Map<string, Node>,
+  positions: Map<string, Position>,
+  options: ConnectionOptions
+): ConnectionShape[] {
+  const shapes: ConnectionShape[] = [];
+
+  nodes.forEach(node => {
+    if (!node.parent) return;
+
+    const parentPos = positions.get(node.parent);
+    const childPos = positions.get(node.id);
+    if (!parentPos || !childPos) return;
+
+    const tier = calculateNodeTier(node.id, nodes);
+    const axis = getConnectionAxis(options.layoutType, parentPos, childPos);
+    const [start, end] = getAnchors(parentPos, childPos, axis);
+
+    shapes.push({
+      fromId: node.parent,
+      toId: node.id,
+      commands: buildCommands(start, end, axis, options.edgeStyle, tier),
+      color: options.theme.edgeColor ?? getTierColor(tier, options.theme),
+      width: getStrokeWidth(tier),
+      filled: options.edgeStyle === 'branch',
+    });
+  });
+
+  return shapes;
+}
+
+/**
+ * Replay path commands onto a canvas context (call beginPath first).
+ */
+export function tracePath(ctx: CanvasRenderingContext2D, commands: PathCommand[]) {
+  commands.forEach(cmd => {
+    switch (cmd.type) {
+      case 'M': ctx.moveTo(cmd.x, cmd.y); break;
+      case 'L': ctx.lineTo(cmd.x, cmd.y); break;
+      case 'C': ctx.bezierCurveTo(cmd.x1, cmd.y1, cmd.x2, cmd.y2, cmd.x, cmd.y); break;
+      case 'Z': ctx.closePath(); break;
+    }
+  });
+}
+
+/**
+ * Convert path commands to SVG path data.
+ */
+export function pathToSvg(commands: PathCommand[]): string {
+  const n = (value: number) => Number(value.toFixed(2));
+  return commands.map(cmd => {
+    switch (cmd.type) {
+      case 'M': return `M${n(cmd.x)} ${n(cmd.y)}`;
+      case 'L': return `L${n(cmd.x)} ${n(cmd.y)}`;
+      case 'C': return `C${n(cmd.x1)} ${n(cmd.y1)} ${n(cmd.x2)} ${n(cmd.y2)} ${n(cmd.x)} ${n(cmd.y)}`;
+      case 'Z': return 'Z';
+    }
+  }).join(' ');
+}
+
+/**
+ * Draw prepared connection shapes in layout coordinates.
+ */
+export function drawConnectionShapes(ctx: CanvasRenderingContext2D, shapes: ConnectionShape[]) {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  shapes.forEach(shape => {
+    ctx.beginPath();
+    tracePath(ctx, shape.commands);
+    if (shape.filled) {
+      ctx.fillStyle = shape.color;
+      ctx.fill();
+    } else {
+      ctx.strokeStyle = shape.color;
+      ctx.lineWidth = shape.width;
+      ctx.stroke();
+    }
+  });
+  ctx.restore();
+}
+
+/**
+ * Draw all connections in layout coordinates.
+ * Callers apply their own transform (pan/zoom on screen, offset/scale on export) beforehand.
+ */
+export function drawConnections(
+  ctx: CanvasRenderingContext2D,
+  nodes: Map<string, Node>,
+  positions: Map<string, Position>,
+  options: ConnectionOptions
+) {
+  drawConnectionShapes(ctx, getConnectionShapes(nodes, positions, options));
+}
@@ -0,0 +1,47 @@
+/**
+ * MapItOut Displayed Nodes
+ *
+ * This module works out which nodes the canvas shows. View filters never change
+ * the map itself:
+ * - The tag filter keeps only nodes with a selected tag, plus their ancestors
+ * - Search filter mode reveals matches hidden in collapsed branches
+ * The canvas, view commands, arrow key navigation and drag-and-drop all lay out
+ * these nodes, so positions always agree with what is drawn.
+ *
+ * Update when: Adding view filters or changing what they show.
+ */
+
+import type { Node, SearchState } from '../types';
+import { buildSearchPattern, findMatchingNodes } from './search';
+import { filterNodesByTags } from './tags';
+import { expandAncestors } from './tree-operations';
+
+export interface DisplayedNodes {
+  nodes: Map<string, Node>;        // What the canvas shows; the map's own Map when no filter applies
+  matchIds: string[];              // Search matches among the tag-filtered nodes, in tree order
+  searchPattern: RegExp | null;
+  searchError: string | null;      // Invalid regex message
+  isSearchFiltering: boolean;      // Filter mode with a valid query: matches are revealed, the rest dimmed
+}
+
+/**
+ * The nodes the canvas shows for the map and the current view filters.
+ */
+export function getDisplayedNodes(
+  nodes: Map<string, Node>,
+  search: SearchState | null,
+  tagFilter: string[]
+): DisplayedNodes {
+  const taggedNodes = filterNodesByTags(nodes, tagFilter);
+  const { pattern, error } = search ? buildSearchPattern(search) : { pattern: null, error: null };
+  const matchIds = findMatchingNodes(taggedNodes, pattern);
+  const isSearchFiltering = Boolean(search?.filter && pattern);
+
+  return {
+    nodes: isSearchFiltering ? expandAncestors(taggedNodes, matchIds) : taggedNodes,
+    matchIds,
+    searchPattern: pattern,
+    searchError: error,
+    isSearchFiltering,
+  };
+}
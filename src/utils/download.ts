@@ -0,0 +1,60 @@
+/**
+ * MapItOut Downloads
+ *
+ * This module saves generated files (exports) through a temporary link,
+ * and reads files the user picked back in as text.
+ *
+ * Update when: Changing how exports are delivered or files are opened.
+ */
+
+/**
+ * Offer a blob to the user as a file download.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Offer text content as a file download.
+ */
+export function downloadText(text: string, filename: string, mimeType = 'text/plain') {
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), filename);
+}
+
+/**
+ * Let the user pick a file and resolve with its name and text, or null if cancelled.
+ */
+export function pickTextFile(accept: string): Promise<{ name: string; text: string } | null> {
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      resolve(file ? { name: file.name, text: await file.text() } : null);
+    };
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
+
+/**
+ * File name without its extension, for titling imported maps.
+ */
+export function getBaseName(filename: string): string {
+  return filename.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Turn a map title into a safe file name stem.
+ */
+export function toFileStem(title: string): string {
+  return title.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'mapitout';
+}
@@ -0,0 +1,99 @@
+/**
+ * MapItOut Drag and Drop
+ *
+ * This module resolves where a dragged node would land and previews the result.
+ * Dropping on the middle of a node reparents onto it; dropping near the edge that
+ * faces a sibling inserts before/after it instead.
+ *
+ * Update when: Changing drop zones, supporting new layouts, or modifying drag previews.
+ */
+
+import type { DropTarget, LayoutType, Node, Position } from '../types';
+import { getLayoutDefinition } from './layout-engines';
+import { canMoveNode, collectSubtree, moveNodeInTree } from './tree-operations';
+
+// Fraction of a node's size on each side that counts as "insert beside" instead of "make child"
+const SIBLING_DROP_ZONE = 0.25;
+
+/**
+ * Find the drop target under a point given in map coordinates (before pan is applied).
+ * Only nodes with a position can be hit, so pass the displayed layout; `nodes` is the
+ * full map, whose child lists the drop index refers to.
+ */
+export function findDropTarget(
+  nodes: Map<string, Node>,
+  positions: Map<string, Position>,
+  draggedId: string,
+  point: { x: number; y: number },
+  layoutType: LayoutType
+): DropTarget | null {
+  const axis = getLayoutDefinition(layoutType).siblingAxis;
+
+  for (const [targetId, pos] of positions) {
+    if (targetId === draggedId) continue;
+
+    const left = pos.x - pos.width / 2;
+    const top = pos.y - pos.height / 2;
+    if (point.x < left || point.x > left + pos.width || point.y < top || point.y > top + pos.height) continue;
+
+    const target = nodes.get(targetId);
+    if (!target) return null;
+
+    // Where along the sibling axis the pointer sits, from 0 to 1
+    const ratio = axis === 'y' ? (point.y - top) / pos.height : (point.x - left) / pos.width;
+    let placement: DropTarget['placement'] = 'child';
+    if (target.parent && ratio < SIBLING_DROP_ZONE) placement = 'before';
+    if (target.parent && ratio > 1 - SIBLING_DROP_ZONE) placement = 'after';
+
+    if (placement === 'child') {
+      return {
+        targetId,
+        placement,
+        parentId: targetId,
+        index: target.children.filter(id => id !== draggedId).length,
+        valid: canMoveNode(nodes, draggedId, targetId),
+      };
+    }
+
+    // Indexes are relative to the sibling list without the dragged node
+    const parentId = target.parent!;
+    const siblings = (nodes.get(parentId)?.children ?? []).filter(id => id !== draggedId);
+    const siblingIndex = siblings.indexOf(targetId);
+
+    return {
+      targetId,
+      placement,
+      parentId,
+      index: placement === 'before' ? siblingIndex : siblingIndex + 1,
+      valid: canMoveNode(nodes, draggedId, parentId),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Lay out the map as if the drop had happened and return the positions
+ * of the dragged subtree, for rendering a ghost preview. `layout` lays out
+ * a map the way the canvas does (view filters and font included).
+ */
+export function getDropPreview(
+  nodes: Map<string, Node>,
+  draggedId: string,
+  dropTarget: DropTarget,
+  layout: (nodes: Map<string, Node>) => Map<string, Position>
+): Map<string, Position> {
+  const preview = new Map<string, Position>();
+  if (!dropTarget.valid) return preview;
+
+  const movedNodes = moveNodeInTree(nodes, draggedId, dropTarget.parentId, dropTarget.index);
+  if (!movedNodes) return preview;
+
+  const positions = layout(movedNodes);
+  collectSubtree(movedNodes, draggedId).forEach(id => {
+    const pos = positions.get(id);
+    if (pos) preview.set(id, pos);
+  });
+
+  return preview;
+}
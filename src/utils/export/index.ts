@@ -0,0 +1,13 @@
+/**
+ * MapItOut Rendered Exports Index
+ *
+ * This file exports the image/document exporters (SVG, PDF, PNG). They all render the
+ * same export scene, built once from the map in scene.ts.
+ *
+ * Update when: Adding new rendered export formats.
+ */
+
+export * from './scene';
+export * from './svg';
+export * from './pdf';
+export * from './png';
@@ -0,0 +1,225 @@
+/**
+ * MapItOut PDF Export
+ *
+ * This module renders an export scene as a single-page vector PDF for printing.
+ * It writes the PDF by hand (paths plus the built-in Helvetica fonts), so no
+ * PDF library is needed. The map is scaled to fit the page inside the margins
+ * and centered; it is never enlarged past its natural size.
+ *
+ * Update when: Adding page sizes, changing print scaling, or drawing new scene elements.
+ */
+
+import type { PathCommand } from '../connection-renderer';
+import { hexToRgb } from '../node-style';
+import type { ExportScene } from './scene';
+
+export type PageSize = 'a4' | 'a3' | 'letter' | 'legal' | 'fit';
+export type PageOrientation = 'auto' | 'portrait' | 'landscape';
+
+export interface PdfOptions {
+  pageSize?: PageSize;             // 'fit' sizes the page to the map
+  orientation?: PageOrientation;   // 'auto' follows the map's aspect ratio
+  marginMm?: number;
+}
+
+// Page sizes in points (1/72 inch), portrait
+export const PAGE_SIZES: Record<Exclude<PageSize, 'fit'>, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  a3: { label: 'A3', width: 841.89, height: 1190.55 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+  legal: { label: 'Legal', width: 612, height: 1008 },
+};
+
+const POINTS_PER_MM = 72 / 25.4;
+// Map units are CSS pixels (96 per inch)
+const POINTS_PER_PX = 72 / 96;
+// Helvetica advance widths (per 1000 units of font size) for ASCII 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Helvetica-Bold advance widths, same layout
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_GLYPH_WIDTH = 556;
+// Bold node text uses the bold font; everything else the regular one
+const BOLD_WEIGHT = 600;
+
+// Typographic characters that WinAnsi places in the 128–159 range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Stand-ins for label glyphs the built-in fonts lack
+const ASCII_FALLBACKS: Record<string, string> = { '☐': '[ ]', '☑': '[x]' };
+
+const n = (value: number) => Number(value.toFixed(3)).toString();
+
+const color = (hex: string) => hexToRgb(hex).map(n).join(' ');
+
+function textWidth(text: string, fontSize: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH;
+  }
+  return (units / 1000) * fontSize;
+}
+
+/**
+ * Encode text as a PDF string in WinAnsi (Latin-1 plus common punctuation) encoding.
+ * Non-ASCII characters are octal-escaped so the file stays ASCII; anything WinAnsi lacks becomes '?'.
+ */
+function pdfString(text: string): string {
+  let out = '(';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`;
+    else if (code >= 32 && code <= 126) out += char;
+    else if (code >= 160 && code <= 255) out += `\\${code.toString(8)}`;
+    else if (char in WIN_ANSI_EXTRAS) out += `\\${WIN_ANSI_EXTRAS[char].toString(8)}`;
+    else out += '?';
+  }
+  return out + ')';
+}
+
+function tracePdfPath(commands: PathCommand[]): string {
+  return commands.map(cmd => {
+    switch (cmd.type) {
+      case 'M': return `${n(cmd.x)} ${n(cmd.y)} m`;
+      case 'L': return `${n(cmd.x)} ${n(cmd.y)} l`;
+      case 'C': return `${n(cmd.x1)} ${n(cmd.y1)} ${n(cmd.x2)} ${n(cmd.y2)} ${n(cmd.x)} ${n(cmd.y)} c`;
+      case 'Z': return 'h';
+    }
+  }).join('\n');
+}
+
+/**
+ * Resolve the page dimensions (in points) for the scene and options.
+ */
+function getPageDimensions(scene: ExportScene, options: Required<PdfOptions>): { width: number; height: number } {
+  const margin = options.marginMm * POINTS_PER_MM;
+  if (options.pageSize === 'fit') {
+    return {
+      width: scene.bounds.width * POINTS_PER_PX + margin * 2,
+      height: scene.bounds.height * POINTS_PER_PX + margin * 2,
+    };
+  }
+
+  const { width, height } = PAGE_SIZES[options.pageSize];
+  const landscape = options.orientation === 'landscape'
+    || (options.orientation === 'auto' && scene.bounds.width > scene.bounds.height);
+  return landscape ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Build the page's content stream in scene coordinates, mapped onto the page by one transform.
+ */
+function buildContentStream(scene: ExportScene, page: { width: number; height: number }, marginMm: number): string {
+  const { bounds } = scene;
+  const margin = marginMm * POINTS_PER_MM;
+  const scale = Math.min(
+    (page.width - margin * 2) / bounds.width,
+    (page.height - margin * 2) / bounds.height,
+    POINTS_PER_PX
+  );
+  // Center the map and flip the y axis (PDF's origin is bottom-left)
+  const offsetX = (page.width - bounds.width * scale) / 2 - bounds.x * scale;
+  const offsetY = (page.height + bounds.height * scale) / 2 + bounds.y * scale;
+
+  const ops: string[] = [];
+  ops.push(`${n(scale)} 0 0 ${n(-scale)} ${n(offsetX)} ${n(offsetY)} cm`);
+  ops.push('1 J 1 j');
+
+  // Without a background the page's paper shows through
+  if (scene.background) {
+    ops.push(`${color(scene.background)} rg`);
+    ops.push(`${n(bounds.x)} ${n(bounds.y)} ${n(bounds.width)} ${n(bounds.height)} re f`);
+  }
+
+  scene.connections.forEach(shape => {
+    ops.push(tracePdfPath(shape.commands));
+    ops.push(shape.filled
+      ? `${color(shape.color)} rg f`
+      : `${color(shape.color)} RG ${n(shape.width)} w S`);
+  });
+
+  scene.nodes.forEach(node => {
+    const outline = tracePdfPath(node.outline);
+    if (node.highlight) {
+      ops.push(outline);
+      ops.push(`${color(scene.highlightColor)} RG ${n(scene.highlightWidth)} w S`);
+    }
+    ops.push(outline);
+    ops.push(node.fill
+      ? `${color(node.fill)} rg ${color(node.stroke)} RG ${n(scene.borderWidth)} w B`
+      : `${color(node.stroke)} RG ${n(scene.borderWidth)} w S`);
+
+    // Text matrices flip y back so glyphs stay upright; baselines sit a bit below each line's middle
+    const bold = node.fontWeight >= BOLD_WEIGHT;
+    const centerX = node.x + node.width / 2;
+    const firstLineY = node.y + node.height / 2 - ((node.lines.length - 1) * node.lineHeight) / 2;
+    ops.push(`BT /${bold ? 'F2' : 'F1'} ${n(node.fontSize)} Tf ${color(scene.textColor)} rg`);
+    node.lines.forEach((label, i) => {
+      const line = label.replace(/[☐☑]/g, char => ASCII_FALLBACKS[char]);
+      const x = centerX - textWidth(line, node.fontSize, bold) / 2;
+      const baseline = firstLineY + i * node.lineHeight + node.fontSize * 0.35;
+      ops.push(`1 0 0 -1 ${n(x)} ${n(baseline)} Tm ${pdfString(line)} Tj`);
+    });
+    ops.push('ET');
+  });
+
+  return ops.join('\n');
+}
+
+/**
+ * Render the scene as a PDF document.
+ */
+export function renderSceneToPdf(scene: ExportScene, options: PdfOptions = {}): Blob {
+  const resolved: Required<PdfOptions> = {
+    pageSize: options.pageSize ?? 'a4',
+    orientation: options.orientation ?? 'auto',
+    marginMm: Math.max(0, options.marginMm ?? 10),
+  };
+  const page = getPageDimensions(scene, resolved);
+  const content = buildContentStream(scene, page, resolved.marginMm);
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(page.width)} ${n(page.height)}] ` +
+      '/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  // Everything is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    pdf += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+}
@@ -0,0 +1,102 @@
+/**
+ * MapItOut PNG Export
+ *
+ * This module rasterizes an export scene onto an offscreen canvas, covering the
+ * full map bounds at the chosen scale. Edges use the live canvas's drawing code,
+ * so the image matches what's on screen.
+ *
+ * Update when: Changing raster export scaling or drawing new scene elements.
+ */
+
+import { drawConnectionShapes, tracePath } from '../connection-renderer';
+import type { ExportScene } from './scene';
+
+export type PngScale = 1 | 2 | 4;
+
+export const PNG_SCALES: PngScale[] = [1, 2, 4];
+
+// Browsers refuse canvases beyond roughly these limits, so huge maps get a lower scale
+const MAX_CANVAS_DIMENSION = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 2;
+
+/**
+ * The largest scale up to `requested` that the browser can allocate for the scene.
+ */
+export function getSafePngScale(scene: ExportScene, requested: number): number {
+  const { width, height } = scene.bounds;
+  return Math.min(
+    requested,
+    MAX_CANVAS_DIMENSION / width,
+    MAX_CANVAS_DIMENSION / height,
+    Math.sqrt(MAX_CANVAS_AREA / (width * height))
+  );
+}
+
+/**
+ * Draw the scene onto a new canvas, `scale` device pixels per map unit.
+ */
+export function renderSceneToCanvas(scene: ExportScene, scale: number): HTMLCanvasElement {
+  const { bounds } = scene;
+  const safeScale = getSafePngScale(scene, scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(bounds.width * safeScale);
+  canvas.height = Math.ceil(bounds.height * safeScale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.setTransform(safeScale, 0, 0, safeScale, -bounds.x * safeScale, -bounds.y * safeScale);
+
+  if (scene.background) {
+    ctx.fillStyle = scene.background;
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+  }
+
+  drawConnectionShapes(ctx, scene.connections);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  scene.nodes.forEach(node => {
+    ctx.beginPath();
+    tracePath(ctx, node.outline);
+    if (node.highlight) {
+      ctx.strokeStyle = scene.highlightColor;
+      ctx.lineWidth = scene.highlightWidth;
+      ctx.stroke();
+    }
+    if (node.fill) {
+      ctx.fillStyle = node.fill;
+      ctx.fill();
+    }
+    ctx.strokeStyle = node.stroke;
+    ctx.lineWidth = scene.borderWidth;
+    ctx.stroke();
+
+    const centerX = node.x + node.width / 2;
+    const firstLineY = node.y + node.height / 2 - ((node.lines.length - 1) * node.lineHeight) / 2;
+    ctx.font = `${node.fontWeight} ${node.fontSize}px ${scene.fontFamily}`;
+    ctx.fillStyle = scene.textColor;
+    node.lines.forEach((line, i) => {
+      ctx.fillText(line, centerX, firstLineY + i * node.lineHeight);
+    });
+  });
+
+  return canvas;
+}
+
+/**
+ * Render the scene as a PNG image.
+ */
+export function renderSceneToPng(scene: ExportScene, scale: PngScale = 2): Promise<Blob> {
+  const canvas = renderSceneToCanvas(scene, scale);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('The map is too large to render as PNG.'));
+      }
+    }, 'image/png');
+  });
+}
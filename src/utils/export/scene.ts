@@ -0,0 +1,198 @@
+/**
+ * MapItOut Export Scene
+ *
+ * This module turns a map into a renderer-neutral scene: the full map bounds,
+ * connection shapes from the connection renderer, and node outlines (as path
+ * commands, per node shape) with colors, fonts and wrapped text lines resolved
+ * from the chosen theme.
+ * SVG, PDF and PNG exports all draw the same scene, so every format shows the
+ * same thing regardless of the current pan and zoom.
+ *
+ * Update when: Changing what exported maps include or how nodes are styled in exports.
+ */
+
+import type { Bounds, EdgeStyle, LayoutType, Node, NodeShape, ThemeKey } from '../../types';
+import { calculateLayout } from '../layout-engines';
+import { getConnectionShapes } from '../connection-renderer';
+import type { ConnectionShape, PathCommand } from '../connection-renderer';
+import { getNodeColors, hexToRgb, HIGHLIGHT_COLOR } from '../node-style';
+import { getPositionsBounds } from '../viewport';
+import { DEFAULT_THEME, getTheme } from '../themes';
+import {
+  DEFAULT_NODE_MAX_WIDTH,
+  NODE_BORDER_WIDTH,
+  NODE_CORNER_RADIUS,
+  getNodeTextStyle,
+  wrapNodeText,
+} from '../node-metrics';
+
+export interface SceneOptions {
+  theme?: ThemeKey;      // Usually the map's own theme
+  transparent?: boolean; // Leave the background unpainted (node fills still assume the theme's background)
+  padding?: number;      // Space around the map, in map units
+  nodeWidth?: number;    // The map's node width (text wraps within it)
+}
+
+export interface SceneNode {
+  id: string;
+  x: number;             // Top-left corner
+  y: number;
+  width: number;
+  height: number;
+  outline: PathCommand[]; // Node shape, in map coordinates
+  fill: string | null;   // null for shapes without a body (underline)
+  stroke: string;
+  highlight: boolean;    // Draw the highlight glow around the outline
+  lines: string[];       // Wrapped label (checkbox, icon and text), one entry per line
+  fontSize: number;
+  fontWeight: number;
+  lineHeight: number;
+  link: string | null;   // The node's first link, for formats that can carry one
+  note: string | null;   // Shown as a tooltip where the format has them
+}
+
+export interface ExportScene {
+  bounds: Bounds;        // Padded area to render, in map coordinates
+  background: string | null;  // null for a transparent background
+  textColor: string;
+  fontFamily: string;
+  borderWidth: number;
+  highlightColor: string;
+  highlightWidth: number; // Stroke width of the glow, centered on the outline
+  connections: ConnectionShape[];
+  nodes: SceneNode[];
+}
+
+const DEFAULT_PADDING = 40;
+// The glow reaches this far outside the border, like the canvas outline (outline-4, offset 2)
+const HIGHLIGHT_SPREAD = 6;
+const HIGHLIGHT_OPACITY = 0.6;
+// Control point distance for approximating a quarter circle with a bezier
+const ARC_KAPPA = 0.5523;
+
+/**
+ * Blend a hex color over a hex background, since not every target supports opacity.
+ */
+function blendHex(color: string, background: string, alpha: number): string {
+  const [fg, bg] = [hexToRgb(color), hexToRgb(background)];
+  return '#' + fg
+    .map((value, i) => Math.round((value * alpha + bg[i] * (1 - alpha)) * 255).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function roundedRectPath(x: number, y: number, width: number, height: number, radius: number): PathCommand[] {
+  const r = Math.min(radius, width / 2, height / 2);
+  const k = r * ARC_KAPPA;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { type: 'M', x: x + r, y },
+    { type: 'L', x: right - r, y },
+    { type: 'C', x1: right - r + k, y1: y, x2: right, y2: y + r - k, x: right, y: y + r },
+    { type: 'L', x: right, y: bottom - r },
+    { type: 'C', x1: right, y1: bottom - r + k, x2: right - r + k, y2: bottom, x: right - r, y: bottom },
+    { type: 'L', x: x + r, y: bottom },
+    { type: 'C', x1: x + r - k, y1: bottom, x2: x, y2: bottom - r + k, x: x, y: bottom - r },
+    { type: 'L', x, y: y + r },
+    { type: 'C', x1: x, y1: y + r - k, x2: x + r - k, y2: y, x: x + r, y },
+    { type: 'Z' },
+  ];
+}
+
+function ellipsePath(x: number, y: number, width: number, height: number): PathCommand[] {
+  const rx = width / 2;
+  const ry = height / 2;
+  const cx = x + rx;
+  const cy = y + ry;
+  const kx = rx * ARC_KAPPA;
+  const ky = ry * ARC_KAPPA;
+  return [
+    { type: 'M', x: cx, y },
+    { type: 'C', x1: cx + kx, y1: y, x2: x + width, y2: cy - ky, x: x + width, y: cy },
+    { type: 'C', x1: x + width, y1: cy + ky, x2: cx + kx, y2: y + height, x: cx, y: y + height },
+    { type: 'C', x1: cx - kx, y1: y + height, x2: x, y2: cy + ky, x, y: cy },
+    { type: 'C', x1: x, y1: cy - ky, x2: cx - kx, y2: y, x: cx, y },
+    { type: 'Z' },
+  ];
+}
+
+/**
+ * The outline of a node box in the given shape.
+ */
+export function getNodeOutline(shape: NodeShape, x: number, y: number, width: number, height: number): PathCommand[] {
+  switch (shape) {
+    case 'pill':
+      return roundedRectPath(x, y, width, height, height / 2);
+    case 'rectangle':
+      return roundedRectPath(x, y, width, height, 0);
+    case 'ellipse':
+      return ellipsePath(x, y, width, height);
+    case 'underline':
+      return [{ type: 'M', x, y: y + height }, { type: 'L', x: x + width, y: y + height }];
+    default:
+      return roundedRectPath(x, y, width, height, NODE_CORNER_RADIUS);
+  }
+}
+
+/**
+ * Lay out the whole map (ignoring the current view) and resolve everything renderers need.
+ * Returns null for an empty map.
+ */
+export function buildExportScene(
+  nodes: Map<string, Node>,
+  layoutType: LayoutType,
+  edgeStyle: EdgeStyle,
+  options: SceneOptions = {}
+): ExportScene | null {
+  const { transparent = false, padding = DEFAULT_PADDING, nodeWidth = DEFAULT_NODE_MAX_WIDTH } = options;
+  const theme = getTheme(options.theme ?? DEFAULT_THEME);
+  const { background } = theme;
+
+  // Node sizes depend on the font, so lay out in the export theme's font
+  const measure = { fontFamily: theme.fontFamily, maxWidth: nodeWidth };
+  const positions = calculateLayout(nodes, layoutType, measure);
+  const contentBounds = getPositionsBounds(positions.values());
+  if (!contentBounds) return null;
+
+  const sceneNodes: SceneNode[] = [];
+  positions.forEach((pos, id) => {
+    const node = nodes.get(id);
+    if (!node) return;
+    const { stroke, fill, fillOpacity } = getNodeColors(node, nodes, theme);
+    const shape = node.style?.shape ?? 'rounded';
+    const x = pos.x - pos.width / 2;
+    const y = pos.y - pos.height / 2;
+    sceneNodes.push({
+      id,
+      x,
+      y,
+      width: pos.width,
+      height: pos.height,
+      outline: getNodeOutline(shape, x, y, pos.width, pos.height),
+      fill: shape === 'underline' ? null : blendHex(fill, background, fillOpacity),
+      stroke,
+      highlight: node.style?.highlight === true,
+      lines: wrapNodeText(node, measure),
+      ...getNodeTextStyle(node.style),
+      link: node.links?.[0]?.url ?? null,
+      note: node.note ?? null,
+    });
+  });
+
+  return {
+    bounds: {
+      x: contentBounds.x - padding,
+      y: contentBounds.y - padding,
+      width: contentBounds.width + padding * 2,
+      height: contentBounds.height + padding * 2,
+    },
+    background: transparent ? null : background,
+    textColor: theme.textColor,
+    fontFamily: theme.fontFamily,
+    borderWidth: NODE_BORDER_WIDTH,
+    highlightColor: blendHex(HIGHLIGHT_COLOR, background, HIGHLIGHT_OPACITY),
+    highlightWidth: NODE_BORDER_WIDTH + HIGHLIGHT_SPREAD * 2,
+    connections: getConnectionShapes(nodes, positions, { layoutType, edgeStyle, theme }),
+    nodes: sceneNodes,
+  };
+}
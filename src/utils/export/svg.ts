@@ -0,0 +1,80 @@
+/**
+ * MapItOut SVG Export
+ *
+ * This module renders an export scene as a standalone SVG document:
+ * no external styles or fonts, so it opens the same in browsers and design tools.
+ * Nodes with a link are clickable, and notes show as tooltips.
+ *
+ * Update when: Changing how scene elements are drawn in SVG.
+ */
+
+import { pathToSvg } from '../connection-renderer';
+import { escapeXml } from '../xml';
+import type { ExportScene } from './scene';
+
+const n = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Render the scene as SVG markup, one map unit per pixel.
+ */
+export function renderSceneToSvg(scene: ExportScene): string {
+  const { bounds } = scene;
+  const out: string[] = [];
+
+  out.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${n(bounds.width)}" height="${n(bounds.height)}" ` +
+    `viewBox="${n(bounds.x)} ${n(bounds.y)} ${n(bounds.width)} ${n(bounds.height)}">`
+  );
+  if (scene.background) {
+    out.push(
+      `<rect x="${n(bounds.x)}" y="${n(bounds.y)}" width="${n(bounds.width)}" height="${n(bounds.height)}" fill="${scene.background}"/>`
+    );
+  }
+
+  // Connections first, so nodes sit on top of edge ends
+  out.push('<g stroke-linecap="round" stroke-linejoin="round">');
+  scene.connections.forEach(shape => {
+    const paint = shape.filled
+      ? `fill="${shape.color}"`
+      : `fill="none" stroke="${shape.color}" stroke-width="${n(shape.width)}"`;
+    out.push(`<path d="${pathToSvg(shape.commands)}" ${paint}/>`);
+  });
+  out.push('</g>');
+
+  out.push(
+    `<g font-family="${escapeXml(scene.fontFamily)}" fill="${scene.textColor}" text-anchor="middle">`
+  );
+  scene.nodes.forEach(node => {
+    const outline = pathToSvg(node.outline);
+    // A link or note wraps the node in its own element, so the tooltip covers just this node
+    const wrapper = node.link ? 'a' : node.note ? 'g' : null;
+    if (node.link) out.push(`<a href="${escapeXml(node.link)}" target="_blank">`);
+    else if (wrapper) out.push('<g>');
+    if (node.note) out.push(`<title>${escapeXml(node.note)}</title>`);
+    if (node.highlight) {
+      out.push(
+        `<path d="${outline}" fill="none" stroke="${scene.highlightColor}" stroke-width="${scene.highlightWidth}" ` +
+        'stroke-linejoin="round"/>'
+      );
+    }
+    out.push(
+      `<path d="${outline}" fill="${node.fill ?? 'none'}" stroke="${node.stroke}" stroke-width="${scene.borderWidth}"/>`
+    );
+
+    // Center the block of lines vertically; each baseline sits at its line's middle
+    const centerX = node.x + node.width / 2;
+    const firstLineY = node.y + node.height / 2 - ((node.lines.length - 1) * node.lineHeight) / 2;
+    const tspans = node.lines.map((line, i) =>
+      `<tspan x="${n(centerX)}" y="${n(firstLineY + i * node.lineHeight)}">${escapeXml(line)}</tspan>`
+    );
+    out.push(
+      `<text font-size="${node.fontSize}" font-weight="${node.fontWeight}" dominant-baseline="central" ` +
+      `xml:space="preserve">${tspans.join('')}</text>`
+    );
+    if (wrapper) out.push(`</${wrapper}>`);
+  });
+  out.push('</g>');
+
+  out.push('</svg>');
+  return out.join('\n') + '\n';
+}
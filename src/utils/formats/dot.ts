@@ -0,0 +1,80 @@
+/**
+ * MapItOut Graphviz DOT Format
+ *
+ * This module writes maps as a Graphviz `digraph`. Tree layouts set `rankdir`
+ * the same way Mermaid flowcharts pick a direction; center and radial maps use
+ * the `twopi` engine so the root stays in the middle. Node styles become
+ * per-node attributes (shape, colors, pen width for highlights, bold or larger text);
+ * a node's first link becomes its URL and its note the tooltip, for SVG output.
+ *
+ * Update when: Changing DOT output or the Graphviz attributes it sets.
+ */
+
+import type { LayoutType, NodeStyle, OutlineItem } from '../../types';
+import { getDiagramDirection } from './mermaid';
+import { getNodeLabel } from '../node-metrics';
+
+const INDENT = '  ';
+
+/**
+ * A quoted DOT string. Backslashes are doubled so labels can't produce escape sequences.
+ */
+export function escapeDotString(text: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r?\n/g, '\\n');
+  return `"${escaped}"`;
+}
+
+/**
+ * Attributes for a node's style, beyond the graph-wide rounded box.
+ */
+function getNodeAttributes(style: NodeStyle | undefined): string[] {
+  if (!style) return [];
+  const attributes: string[] = [];
+  const styles = style.shape === 'rectangle' ? [] : ['rounded'];
+
+  if (style.shape === 'ellipse') attributes.push('shape=ellipse');
+  if (style.shape === 'underline') attributes.push('shape=underline');
+  if (style.borderColor) attributes.push(`color="${style.borderColor}"`);
+  if (style.fillColor) {
+    styles.push('filled');
+    attributes.push(`fillcolor="${style.fillColor}"`);
+  }
+  if (style.shape === 'rectangle' || style.fillColor) attributes.push(`style="${styles.join(',')}"`);
+  if (style.highlight) attributes.push('penwidth=3');
+  if (style.bold) attributes.push('fontname="Helvetica-Bold"');
+  if (style.large) attributes.push('fontsize=18');
+  return attributes;
+}
+
+/**
+ * Serialize an outline as a DOT digraph.
+ */
+export function serializeDot(root: OutlineItem, title: string, layoutType: LayoutType): string {
+  const isRadial = layoutType === 'center' || layoutType === 'radial';
+  const lines = [
+    `digraph ${escapeDotString(title)} {`,
+    isRadial
+      ? `${INDENT}graph [layout=twopi, root=n0, overlap=false];`
+      : `${INDENT}graph [rankdir=${getDiagramDirection(layoutType)}];`,
+    `${INDENT}node [shape=box, style=rounded, fontname="Helvetica"];`,
+  ];
+  const edgeLines: string[] = [];
+  let nextId = 0;
+
+  const writeItem = (item: OutlineItem, parentId: string | null) => {
+    const id = `n${nextId++}`;
+    const label = getNodeLabel({ ...item, text: item.text.trim() });
+    const attributes = [`label=${escapeDotString(label)}`, ...getNodeAttributes(item.style)];
+    if (item.links?.[0]) attributes.push(`URL=${escapeDotString(item.links[0].url)}`, 'target="_blank"');
+    if (item.note) attributes.push(`tooltip=${escapeDotString(item.note)}`);
+    lines.push(`${INDENT}${id} [${attributes.join(', ')}];`);
+    if (parentId) edgeLines.push(`${INDENT}${parentId} -> ${id};`);
+    item.children.forEach(child => writeItem(child, id));
+  };
+
+  writeItem(root, null);
+  return [...lines, ...edgeLines, '}'].join('\n') + '\n';
+}
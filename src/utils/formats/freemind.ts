@@ -0,0 +1,141 @@
+/**
+ * MapItOut FreeMind Format
+ *
+ * This module reads and writes FreeMind / Freeplane `.mm` mind maps:
+ * - <node> elements nest to form the tree; TEXT holds the node text
+ *   (rich HTML node content is read as plain text, one line per paragraph)
+ * - FOLDED="true" maps to collapsed, CREATED / MODIFIED are epoch milliseconds
+ * - Notes are NOTE rich content (one paragraph per line), LINK holds the first link,
+ *   and tasks are the checked / unchecked icons (FreeMind's button_ok reads as done)
+ *
+ * Update when: Carrying more node data through .mm files or supporting newer Freeplane attributes.
+ */
+
+import type { OutlineItem } from '../../types';
+import { childElements, escapeXml, parseXml } from '../xml';
+import { normalizeUrl } from '../node-content';
+import { MapFileError } from './mapitout-file';
+
+const INDENT = '  ';
+const MAP_VERSION = '1.0.1';
+const DONE_ICONS = ['checked', 'button_ok'];
+const TODO_ICONS = ['unchecked'];
+
+const parseTimestamp = (value: string | null): number | undefined => {
+  const time = Number(value);
+  return value && Number.isFinite(time) && time > 0 ? time : undefined;
+};
+
+/**
+ * Plain text of a node's rich HTML content of one type (NODE or NOTE), one line per paragraph.
+ */
+function readRichContent(element: Element, type: string): string {
+  const rich = childElements(element, 'richcontent')
+    .find(child => (child.getAttribute('TYPE') ?? 'NODE') === type);
+  if (!rich) return '';
+
+  const paragraphs = Array.from(rich.getElementsByTagName('p'));
+  const blocks = paragraphs.length > 0 ? paragraphs : [rich];
+  return blocks
+    .map(block => (block.textContent ?? '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Node text from TEXT, LOCALIZED_TEXT, or rich HTML content.
+ */
+function readNodeText(element: Element): string {
+  const text = element.getAttribute('TEXT') ?? element.getAttribute('LOCALIZED_TEXT');
+  return text ?? readRichContent(element, 'NODE');
+}
+
+/**
+ * Note, link and task of a node; unset ones are left out.
+ */
+function readContent(element: Element): Pick<OutlineItem, 'note' | 'links' | 'task'> {
+  const note = readRichContent(element, 'NOTE');
+  const link = element.getAttribute('LINK');
+  const url = link ? normalizeUrl(link) : null;
+  const icons = childElements(element, 'icon').map(icon => icon.getAttribute('BUILTIN'));
+  const task = icons.some(icon => DONE_ICONS.includes(icon ?? ''))
+    ? 'done'
+    : icons.some(icon => TODO_ICONS.includes(icon ?? '')) ? 'todo' : undefined;
+  return {
+    ...(note ? { note } : {}),
+    ...(url ? { links: [{ url }] } : {}),
+    ...(task ? { task } : {}),
+  };
+}
+
+/**
+ * A note as NOTE rich content, one paragraph per line.
+ */
+function writeNote(note: string, indent: string): string[] {
+  const paragraphs = note.split('\n').map(line => `<p>${escapeXml(line)}</p>`).join('');
+  return [`${indent}<richcontent TYPE="NOTE"><html><head></head><body>${paragraphs}</body></html></richcontent>`];
+}
+
+/**
+ * Parse a .mm file into its root outline item. Throws MapFileError for invalid files.
+ */
+export function parseFreeMind(text: string): OutlineItem {
+  const doc = parseXml(text);
+  const map = doc?.documentElement;
+  if (!map || map.tagName !== 'map') throw new MapFileError('The file is not a valid FreeMind map.');
+
+  const rootElement = childElements(map, 'node')[0];
+  if (!rootElement) throw new MapFileError('The FreeMind map has no root node.');
+
+  const readNode = (element: Element): OutlineItem => {
+    const children = childElements(element, 'node');
+    return {
+      text: readNodeText(element),
+      collapsed: element.getAttribute('FOLDED') === 'true' && children.length > 0,
+      created: parseTimestamp(element.getAttribute('CREATED')),
+      modified: parseTimestamp(element.getAttribute('MODIFIED')),
+      ...readContent(element),
+      children: children.map(readNode),
+    };
+  };
+
+  return readNode(rootElement);
+}
+
+/**
+ * Serialize an outline as a FreeMind map.
+ */
+export function serializeFreeMind(root: OutlineItem): string {
+  const lines: string[] = [`<map version="${MAP_VERSION}">`];
+  let nextId = 1;
+
+  const writeNode = (item: OutlineItem, depth: number) => {
+    const attributes = [
+      item.created ? `CREATED="${item.created}"` : '',
+      `ID="ID_${nextId++}"`,
+      item.modified ? `MODIFIED="${item.modified}"` : '',
+      `TEXT="${escapeXml(item.text)}"`,
+      item.links?.[0] ? `LINK="${escapeXml(item.links[0].url)}"` : '',
+      item.collapsed && item.children.length > 0 ? 'FOLDED="true"' : '',
+    ].filter(Boolean).join(' ');
+
+    const inner = INDENT.repeat(depth + 1);
+    const content = [
+      ...(item.task ? [`${inner}<icon BUILTIN="${item.task === 'done' ? 'checked' : 'unchecked'}"/>`] : []),
+      ...(item.note ? writeNote(item.note, inner) : []),
+    ];
+
+    const open = `${INDENT.repeat(depth)}<node ${attributes}`;
+    if (item.children.length === 0 && content.length === 0) {
+      lines.push(`${open}/>`);
+      return;
+    }
+    lines.push(`${open}>`, ...content);
+    item.children.forEach(child => writeNode(child, depth + 1));
+    lines.push(`${INDENT.repeat(depth)}</node>`);
+  };
+
+  writeNode(root, 1);
+  lines.push('</map>', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,20 @@
+/**
+ * MapItOut Interchange Formats Index
+ *
+ * This file exports the readers and writers for text-based map formats,
+ * including the write-only diagram formats (Mermaid, DOT).
+ * Outline formats convert through the shared outline model in outline.ts;
+ * the native .mapitout.json format keeps the full node data.
+ * registry.ts ties them together for opening and exporting files.
+ *
+ * Update when: Adding new import/export formats.
+ */
+
+export * from './outline';
+export * from './markdown';
+export * from './mapitout-file';
+export * from './opml';
+export * from './freemind';
+export * from './mermaid';
+export * from './dot';
+export * from './registry';
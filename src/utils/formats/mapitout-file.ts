@@ -0,0 +1,283 @@
+/**
+ * MapItOut Native File Format
+ *
+ * This module reads and writes `.mapitout.json` files:
+ * - Every file carries a schema version; older versions are upgraded one step
+ *   at a time through MIGRATIONS before validation
+ * - Validation checks the tree's integrity (dangling child ids, orphaned parents,
+ *   mismatched links, multiple roots, cycles) and reports readable problems
+ * - Version 0 is the pre-file localStorage shape, with nodes as entries or an object
+ * - Node styles, notes, links and tasks, the map theme and node width are optional, so files
+ *   without them (or from before them) still load as v1
+ *
+ * Update when: Changing the file schema (bump MAP_FILE_VERSION and add a migration).
+ */
+
+import type { EdgeStyle, LayoutType, Node, ThemeKey } from '../../types';
+import { sanitizeNodeStyle } from '../node-style';
+import { assignNodeContent, sanitizeNodeContent } from '../node-content';
+import { DEFAULT_THEME, isThemeKey } from '../themes';
+import { isLayoutType } from '../layout-engines';
+import { isEdgeStyle } from '../connection-renderer';
+import { DEFAULT_NODE_MAX_WIDTH, isNodeWidth } from '../node-metrics';
+
+export const MAP_FILE_VERSION = 1;
+export const MAP_FILE_EXTENSION = '.mapitout.json';
+
+const FORMAT_ID = 'mapitout';
+// Enough problems to diagnose a file without flooding the dialog
+const MAX_REPORTED_PROBLEMS = 8;
+
+export interface MapFile {
+  format: typeof FORMAT_ID;
+  version: number;
+  title: string;
+  savedAt: number;
+  layoutType: LayoutType;
+  edgeStyle: EdgeStyle;
+  theme: ThemeKey;
+  nodeWidth: number;       // Max text width nodes wrap at
+  nodes: Node[];           // Parents before children, in child order
+}
+
+export interface LoadedMap {
+  title: string;
+  nodes: Map<string, Node>;
+  rootId: string;
+  layoutType: LayoutType;
+  edgeStyle: EdgeStyle;
+  theme: ThemeKey;
+  nodeWidth: number;
+}
+
+/**
+ * A file that couldn't be read, with one readable message per problem found.
+ */
+export class MapFileError extends Error {
+  problems: string[];
+
+  constructor(summary: string, problems: string[] = []) {
+    super(problems.length > 0 ? `${summary}\n- ${problems.join('\n- ')}` : summary);
+    this.name = 'MapFileError';
+    this.problems = problems;
+  }
+}
+
+type RawData = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Accept nodes as an array of nodes, an array of [id, node] entries,
+ * or an object keyed by id (the shapes older saves used).
+ */
+export function normalizeNodeList(raw: unknown): unknown[] {
+  if (Array.isArray(raw)) {
+    return raw.map(item =>
+      Array.isArray(item) && item.length === 2 && typeof item[0] === 'string' ? item[1] : item
+    );
+  }
+  if (isObject(raw)) return Object.values(raw);
+  return [];
+}
+
+/**
+ * Upgrade steps, keyed by the version they upgrade from.
+ */
+const MIGRATIONS: Record<number, (data: RawData) => RawData> = {
+  // v0 → v1: persisted store state (possibly inside zustand's { state, version } wrapper)
+  0: (data) => {
+    const state = isObject(data.state) ? data.state : data;
+    return {
+      format: FORMAT_ID,
+      version: 1,
+      title: typeof state.title === 'string' ? state.title : '',
+      savedAt: Date.now(),
+      layoutType: state.layoutType,
+      edgeStyle: state.edgeStyle,
+      nodes: normalizeNodeList(state.nodes),
+    };
+  },
+};
+
+/**
+ * Bring raw file data up to the current version.
+ */
+export function migrateMapFile(data: RawData): RawData {
+  let current = data;
+  let version = typeof current.version === 'number' && current.format === FORMAT_ID ? current.version : 0;
+
+  if (version > MAP_FILE_VERSION) {
+    throw new MapFileError(
+      `This file was saved by a newer version of MapItOut (format v${version}; this app reads up to v${MAP_FILE_VERSION}).`
+    );
+  }
+
+  while (version < MAP_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new MapFileError(`Don't know how to upgrade format v${version}.`);
+    current = migrate(current);
+    version = current.version as number;
+  }
+
+  return current;
+}
+
+/**
+ * Check field types and tree integrity. Returns the problems found (empty when valid).
+ */
+function validateNodes(rawNodes: unknown[]): { nodes: Map<string, Node>; problems: string[] } {
+  const problems: string[] = [];
+  const nodes = new Map<string, Node>();
+  const now = Date.now();
+
+  rawNodes.forEach((raw, index) => {
+    if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id) {
+      problems.push(`Node #${index + 1} has no id.`);
+      return;
+    }
+    const label = `Node "${raw.id}"`;
+    if (nodes.has(raw.id)) {
+      problems.push(`${label} appears more than once.`);
+      return;
+    }
+    if (typeof raw.text !== 'string') problems.push(`${label} has no text.`);
+    if (!Array.isArray(raw.children) || raw.children.some(id => typeof id !== 'string')) {
+      problems.push(`${label} has an invalid children list.`);
+    }
+    if (raw.parent !== null && typeof raw.parent !== 'string') {
+      problems.push(`${label} has an invalid parent.`);
+    }
+
+    // Missing metadata is filled in rather than rejected; invalid style and content fields are dropped
+    const metadata = isObject(raw.metadata) ? raw.metadata : {};
+    const style = sanitizeNodeStyle(raw.style);
+    nodes.set(raw.id, assignNodeContent<Node>({
+      id: raw.id,
+      text: typeof raw.text === 'string' ? raw.text : '',
+      children: Array.isArray(raw.children) ? raw.children.filter((id): id is string => typeof id === 'string') : [],
+      parent: typeof raw.parent === 'string' ? raw.parent : null,
+      metadata: {
+        created: typeof metadata.created === 'number' ? metadata.created : now,
+        modified: typeof metadata.modified === 'number' ? metadata.modified : now,
+        collapsed: metadata.collapsed === true,
+      },
+      ...(style ? { style } : {}),
+    }, sanitizeNodeContent(raw)));
+  });
+
+  if (nodes.size === 0) {
+    problems.push('The map has no nodes.');
+    return { nodes, problems };
+  }
+
+  nodes.forEach(node => {
+    node.children.forEach(childId => {
+      const child = nodes.get(childId);
+      if (!child) {
+        problems.push(`Node "${node.id}" lists child "${childId}", which doesn't exist.`);
+      } else if (child.parent !== node.id) {
+        problems.push(`Node "${node.id}" lists child "${childId}", but that node's parent is "${child.parent}".`);
+      }
+    });
+    if (node.parent !== null) {
+      const parent = nodes.get(node.parent);
+      if (!parent) {
+        problems.push(`Node "${node.id}" has parent "${node.parent}", which doesn't exist.`);
+      } else if (!parent.children.includes(node.id)) {
+        problems.push(`Node "${node.id}" has parent "${node.parent}", which doesn't list it as a child.`);
+      }
+    }
+  });
+
+  const roots = Array.from(nodes.values()).filter(node => node.parent === null);
+  if (roots.length === 0) {
+    problems.push('The map has no root node (every node has a parent).');
+  } else if (roots.length > 1) {
+    problems.push(`The map has ${roots.length} root nodes (${roots.map(root => `"${root.id}"`).join(', ')}); it needs exactly one.`);
+  } else if (problems.length === 0) {
+    // Links are consistent, so anything the root can't reach is part of a cycle
+    const reachable = new Set<string>();
+    const visit = (id: string) => {
+      if (reachable.has(id)) return;
+      reachable.add(id);
+      nodes.get(id)?.children.forEach(visit);
+    };
+    visit(roots[0].id);
+    const unreachable = Array.from(nodes.keys()).filter(id => !reachable.has(id));
+    if (unreachable.length > 0) {
+      problems.push(`${unreachable.length} node(s) form a cycle and can't be reached from the root.`);
+    }
+  }
+
+  return { nodes, problems };
+}
+
+/**
+ * Serialize a map to the current file format.
+ */
+export function serializeMapFile(map: {
+  title: string;
+  nodes: Map<string, Node>;
+  layoutType: LayoutType;
+  edgeStyle: EdgeStyle;
+  theme: ThemeKey;
+  nodeWidth: number;
+}): string {
+  // Write parents before children so the file reads top-down
+  const ordered: Node[] = [];
+  const visit = (id: string) => {
+    const node = map.nodes.get(id);
+    if (!node) return;
+    ordered.push(node);
+    node.children.forEach(visit);
+  };
+  Array.from(map.nodes.values()).filter(node => node.parent === null).forEach(root => visit(root.id));
+
+  const file: MapFile = {
+    format: FORMAT_ID,
+    version: MAP_FILE_VERSION,
+    title: map.title,
+    savedAt: Date.now(),
+    layoutType: map.layoutType,
+    edgeStyle: map.edgeStyle,
+    theme: map.theme,
+    nodeWidth: map.nodeWidth,
+    nodes: ordered,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse, migrate and validate a file's text. Throws MapFileError for unreadable files.
+ */
+export function parseMapFile(text: string): LoadedMap {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MapFileError('The file is not valid JSON.');
+  }
+  if (!isObject(data)) throw new MapFileError('The file does not contain a MapItOut map.');
+
+  const file = migrateMapFile(data);
+  const { nodes, problems } = validateNodes(normalizeNodeList(file.nodes));
+  if (problems.length > 0) {
+    const shown = problems.slice(0, MAX_REPORTED_PROBLEMS);
+    if (problems.length > shown.length) shown.push(`…and ${problems.length - shown.length} more.`);
+    throw new MapFileError('The map in this file is damaged:', shown);
+  }
+
+  const root = Array.from(nodes.values()).find(node => node.parent === null)!;
+  return {
+    title: typeof file.title === 'string' && file.title.trim() ? file.title : root.text,
+    nodes,
+    rootId: root.id,
+    // Unknown settings fall back to the defaults instead of failing the load
+    layoutType: isLayoutType(file.layoutType) ? file.layoutType : 'center',
+    edgeStyle: isEdgeStyle(file.edgeStyle) ? file.edgeStyle : 'curved',
+    theme: isThemeKey(file.theme) ? file.theme : DEFAULT_THEME,
+    nodeWidth: isNodeWidth(file.nodeWidth) ? file.nodeWidth : DEFAULT_NODE_MAX_WIDTH,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * MapItOut Markdown Outline Format
+ *
+ * This module reads and writes maps as Markdown outlines:
+ * - Headings nest by level (# above ##), and lists nest under the closest heading
+ * - List items (-, *, + or 1.) and plain lines nest by indentation
+ * - `[ ]` / `[x]` task boxes, trailing `#tags`, trailing `[title](url)` / `<url>` links and
+ *   `>` quote lines (the node's note) below an item carry node content
+ * - A `#` in node text is written as `\#`, so it's never read back as a tag
+ * - Exports write the root as a heading and everything below as a nested `-` list
+ *
+ * Update when: Supporting more Markdown syntax or changing the exported layout.
+ */
+
+import type { NodeLink, OutlineItem } from '../../types';
+import { normalizeUrl } from '../node-content';
+import { sanitizeTags } from '../tags';
+
+// Closing #s only count with a space before them, so "C#" keeps its #
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM_PATTERN = /^([-*+]|\d+[.)])\s+(.*)$/;
+const RULE_PATTERN = /^([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^(```|~~~)/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const TRAILING_LINK_PATTERN = /\s*(?:\[([^\]]*)\]\(([^)\s]+)\)|<([^>\s]+)>)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+// A tag starts with a letter, so "issue #42" stays text; escaped `\#` is never a tag
+const TRAILING_TAG_PATTERN = /^(.*\S)\s+#(\p{L}[^\s#]*)$/u;
+const ESCAPED_HASH_PATTERN = /\\#/g;
+
+// Headings always outrank list items, which rank by their indentation
+const LIST_RANK_BASE = 100;
+const TAB_WIDTH = 4;
+const INDENT = '  ';
+
+export interface MarkdownExportOptions {
+  rootAsHeading?: boolean;  // Write the root as `# Title` (default) or as the first list item
+}
+
+const indentWidth = (whitespace: string) =>
+  whitespace.replace(/\t/g, ' '.repeat(TAB_WIDTH)).length;
+
+/**
+ * Split an item's text into its task state, text, trailing tags and trailing links.
+ * An item that is only links keeps the first link's title (or URL) as its text.
+ */
+function parseItemText(raw: string): Pick<OutlineItem, 'text' | 'links' | 'task' | 'tags'> {
+  let text = raw;
+  let task: OutlineItem['task'];
+  const taskMatch = text.match(TASK_PATTERN);
+  if (taskMatch) {
+    task = taskMatch[1] === ' ' ? 'todo' : 'done';
+    text = taskMatch[2].trim();
+  }
+
+  const links: NodeLink[] = [];
+  for (let match = text.match(TRAILING_LINK_PATTERN); match; match = text.match(TRAILING_LINK_PATTERN)) {
+    const url = normalizeUrl(match[2] ?? match[3]);
+    if (!url) break;
+    const title = match[1]?.trim();
+    links.unshift(title ? { url, title } : { url });
+    text = text.slice(0, match.index).trim();
+  }
+  if (!text && links.length > 0) text = links[0].title ?? links[0].url;
+
+  const found: string[] = [];
+  for (let match = text.match(TRAILING_TAG_PATTERN); match; match = text.match(TRAILING_TAG_PATTERN)) {
+    found.unshift(match[2]);
+    text = match[1];
+  }
+  const tags = sanitizeTags(found);
+  text = text.replace(ESCAPED_HASH_PATTERN, '#');
+
+  return { text, ...(links.length > 0 ? { links } : {}), ...(task ? { task } : {}), ...(tags ? { tags } : {}) };
+}
+
+/**
+ * Parse a Markdown outline into top-level outline items.
+ * Blank lines, horizontal rules and fenced code blocks are skipped.
+ */
+export function parseMarkdownOutline(markdown: string): OutlineItem[] {
+  const roots: OutlineItem[] = [];
+  // Open ancestors of the next line, each with the rank that decides nesting
+  const stack: { rank: number; item: OutlineItem }[] = [];
+  const notes = new Map<OutlineItem, string[]>();
+  let inFence = false;
+
+  markdown.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+
+    // Quote lines are the note of the item above them
+    const quote = !inFence && trimmed.match(QUOTE_PATTERN);
+    if (quote && stack.length > 0) {
+      const item = stack[stack.length - 1].item;
+      notes.set(item, [...(notes.get(item) ?? []), quote[1]]);
+      return;
+    }
+
+    if (FENCE_PATTERN.test(trimmed)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence || !trimmed || RULE_PATTERN.test(trimmed)) return;
+
+    let rank: number;
+    let text: string;
+    const heading = trimmed.match(HEADING_PATTERN);
+    if (heading) {
+      rank = heading[1].length;
+      text = heading[2];
+    } else {
+      const listItem = trimmed.match(LIST_ITEM_PATTERN);
+      rank = LIST_RANK_BASE + indentWidth(line.match(/^\s*/)![0]);
+      text = listItem ? listItem[2].trim() : trimmed;
+    }
+    if (!text) return;
+
+    while (stack.length > 0 && stack[stack.length - 1].rank >= rank) stack.pop();
+
+    const item: OutlineItem = { ...parseItemText(text), children: [] };
+    if (stack.length > 0) {
+      stack[stack.length - 1].item.children.push(item);
+    } else {
+      roots.push(item);
+    }
+    stack.push({ rank, item });
+  });
+
+  notes.forEach((lines, item) => {
+    const note = lines.join('\n').trim();
+    if (note) item.note = note;
+  });
+  return roots;
+}
+
+/**
+ * Serialize an outline as Markdown. Line breaks inside node text become spaces,
+ * since each line of the outline is one item; notes are quoted below their item.
+ */
+export function serializeMarkdownOutline(
+  root: OutlineItem,
+  options: MarkdownExportOptions = {}
+): string {
+  const { rootAsHeading = true } = options;
+  const lines: string[] = [];
+  const singleLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+  const itemLine = (item: OutlineItem) => {
+    const box = item.task ? (item.task === 'done' ? '[x] ' : '[ ] ') : '';
+    const links = (item.links ?? []).map(link => {
+      const url = link.url.replace(/\)/g, '%29');
+      return link.title ? ` [${link.title.replace(/[[\]]/g, '')}](${url})` : ` <${url}>`;
+    });
+    const tags = (item.tags ?? []).map(tag => ` #${tag}`);
+    const text = singleLine(item.text).replace(/#/g, '\\#');
+    return `${box}${text}${tags.join('')}${links.join('')}`;
+  };
+  const writeNote = (item: OutlineItem, indent: string) => {
+    item.note?.split('\n').forEach(line => lines.push(`${indent}>${line ? ` ${line}` : ''}`));
+  };
+
+  const writeItem = (item: OutlineItem, depth: number) => {
+    lines.push(`${INDENT.repeat(depth)}- ${itemLine(item)}`);
+    writeNote(item, INDENT.repeat(depth + 1));
+    item.children.forEach(child => writeItem(child, depth + 1));
+  };
+
+  if (rootAsHeading) {
+    lines.push(`# ${itemLine(root)}`);
+    writeNote(root, '');
+    if (root.children.length > 0) lines.push('');
+    root.children.forEach(child => writeItem(child, 0));
+  } else {
+    writeItem(root, 0);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,131 @@
+/**
+ * MapItOut Mermaid Format
+ *
+ * This module writes maps as Mermaid diagram code for docs and READMEs:
+ * - `mindmap`: indentation-nested nodes, the root drawn as a circle
+ * - `flowchart`: numbered boxes joined by arrows, directed by the map's layout
+ *   (`top` and `org` read top-down, `fishbone` right-to-left, others left-to-right)
+ * Labels are always quoted, with quotes and markup characters written as
+ * Mermaid entity codes and line breaks as <br>. Task checkboxes and node icons lead
+ * the label; node shapes pick the closest Mermaid shape, and flowcharts also get
+ * `style` lines for custom colors, bold text and highlights, and `click` lines for
+ * each node's first link.
+ *
+ * Update when: Changing diagram output or how layouts map to diagram directions.
+ */
+
+import type { LayoutType, NodeShape, NodeStyle, OutlineItem } from '../../types';
+import { getNodeLabel } from '../node-metrics';
+
+export type DiagramDirection = 'TB' | 'LR' | 'RL';
+
+const INDENT = '    ';
+
+// Mermaid decodes #<code>; entities in labels, so these can't break out of the quotes
+const MERMAID_ENTITIES: Record<string, string> = {
+  '#': '#35;',
+  '"': '#quot;',
+  '<': '#lt;',
+  '>': '#gt;',
+  '&': '#amp;',
+};
+
+// Label brackets per node shape; other shapes (and unstyled nodes) are plain boxes
+const MINDMAP_SHAPES: Partial<Record<NodeShape, [string, string]>> = {
+  pill: ['(', ')'],
+  ellipse: ['((', '))'],
+};
+const FLOWCHART_SHAPES: Partial<Record<NodeShape, [string, string]>> = {
+  pill: ['([', '])'],
+  ellipse: ['((', '))'],
+};
+const BOX: [string, string] = ['[', ']'];
+
+/**
+ * The diagram direction closest to a layout.
+ */
+export function getDiagramDirection(layoutType: LayoutType): DiagramDirection {
+  switch (layoutType) {
+    case 'top':
+    case 'org':
+      return 'TB';
+    case 'fishbone':
+      return 'RL';
+    default:
+      return 'LR';
+  }
+}
+
+/**
+ * A quoted Mermaid label. Empty text becomes a blank label, which Mermaid requires.
+ */
+export function escapeMermaidLabel(text: string): string {
+  const label = text
+    .trim()
+    .replace(/[#"<>&]/g, char => MERMAID_ENTITIES[char])
+    .replace(/\s*\n\s*/g, '<br>');
+  return `"${label || ' '}"`;
+}
+
+const getLabel = (item: OutlineItem) => escapeMermaidLabel(getNodeLabel(item));
+
+/**
+ * Flowchart `style` properties for a node's colors and emphasis (empty for unstyled nodes).
+ */
+function getFlowchartStyle(style: NodeStyle | undefined): string {
+  if (!style) return '';
+  const properties = [
+    style.fillColor ? `fill:${style.fillColor}` : '',
+    style.borderColor ? `stroke:${style.borderColor}` : '',
+    style.highlight ? 'stroke-width:4px' : '',
+    style.bold ? 'font-weight:bold' : '',
+    style.large ? 'font-size:18px' : '',
+  ];
+  return properties.filter(Boolean).join(',');
+}
+
+/**
+ * Serialize an outline as a Mermaid mindmap.
+ */
+export function serializeMermaidMindmap(root: OutlineItem): string {
+  const lines = ['mindmap'];
+  let nextId = 0;
+
+  const writeItem = (item: OutlineItem, depth: number) => {
+    const id = `n${nextId++}`;
+    const [open, close] = depth === 1 && !item.style?.shape
+      ? ['((', '))']
+      : (item.style?.shape && MINDMAP_SHAPES[item.style.shape]) || BOX;
+    lines.push(`${INDENT.repeat(depth)}${id}${open}${getLabel(item)}${close}`);
+    item.children.forEach(child => writeItem(child, depth + 1));
+  };
+
+  writeItem(root, 1);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize an outline as a Mermaid flowchart.
+ */
+export function serializeMermaidFlowchart(root: OutlineItem, direction: DiagramDirection): string {
+  const nodeLines: string[] = [];
+  const edgeLines: string[] = [];
+  const styleLines: string[] = [];
+  const clickLines: string[] = [];
+  let nextId = 0;
+
+  const writeItem = (item: OutlineItem, parentId: string | null) => {
+    const id = `n${nextId++}`;
+    const [open, close] = (item.style?.shape && FLOWCHART_SHAPES[item.style.shape]) || BOX;
+    nodeLines.push(`${INDENT}${id}${open}${getLabel(item)}${close}`);
+    if (parentId) edgeLines.push(`${INDENT}${parentId} --> ${id}`);
+    const style = getFlowchartStyle(item.style);
+    if (style) styleLines.push(`${INDENT}style ${id} ${style}`);
+    const link = item.links?.[0];
+    if (link) clickLines.push(`${INDENT}click ${id} href "${link.url.replace(/"/g, '%22')}" _blank`);
+    item.children.forEach(child => writeItem(child, id));
+  };
+
+  writeItem(root, null);
+  return [`flowchart ${direction}`, ...nodeLines, ...edgeLines, ...styleLines, ...clickLines].join('\n') + '\n';
+}
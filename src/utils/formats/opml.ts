@@ -0,0 +1,133 @@
+/**
+ * MapItOut OPML Format
+ *
+ * This module reads and writes OPML 2.0 outlines:
+ * - Each <outline text="..."> is a node; nesting gives the children order
+ * - Collapsed state maps to the head's <expansionState> (visible line numbers
+ *   of expanded outlines), as outliners write it
+ * - Creation times use the outline `created` attribute (RFC 822 dates)
+ * - Notes use `_note` and task state `_status` (checked / unchecked), as OmniOutliner
+ *   writes them (Workflowy's `_complete` is read too); the first link becomes a
+ *   `type="link"` outline's `url`, since OPML has room for one
+ *
+ * Update when: Carrying more node data through OPML or supporting outliner-specific attributes.
+ */
+
+import type { OutlineItem } from '../../types';
+import { childElements, escapeXml, parseXml } from '../xml';
+import { normalizeUrl } from '../node-content';
+import { MapFileError } from './mapitout-file';
+
+const INDENT = '  ';
+
+const parseDate = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const readTask = (element: Element): OutlineItem['task'] => {
+  const status = element.getAttribute('_status');
+  if (status === 'checked') return 'done';
+  if (status === 'unchecked' || status === 'indeterminate') return 'todo';
+  return element.getAttribute('_complete') === 'true' ? 'done' : undefined;
+};
+
+/**
+ * Note, link and task attributes of an outline; unset ones are left out.
+ */
+function readContent(element: Element): Pick<OutlineItem, 'note' | 'links' | 'task'> {
+  const note = element.getAttribute('_note')?.trim();
+  const url = element.getAttribute('url');
+  const safeUrl = url ? normalizeUrl(url) : null;
+  const task = readTask(element);
+  return {
+    ...(note ? { note } : {}),
+    ...(safeUrl ? { links: [{ url: safeUrl }] } : {}),
+    ...(task ? { task } : {}),
+  };
+}
+
+/**
+ * Parse OPML into its title and top-level outline items. Throws MapFileError for invalid files.
+ */
+export function parseOpml(text: string): { title?: string; items: OutlineItem[] } {
+  const doc = parseXml(text);
+  const opml = doc?.documentElement;
+  if (!opml || opml.tagName !== 'opml') throw new MapFileError('The file is not valid OPML.');
+
+  const head = childElements(opml, 'head')[0];
+  const body = childElements(opml, 'body')[0];
+  if (!body) throw new MapFileError('The OPML file has no <body>.');
+
+  const title = head && childElements(head, 'title')[0]?.textContent?.trim();
+  const expansionText = head && childElements(head, 'expansionState')[0]?.textContent;
+  const expanded = expansionText
+    ? new Set(expansionText.split(',').map(value => Number(value.trim())))
+    : null;
+
+  // Visible line counter for expansionState; only lines under expanded outlines are counted
+  let line = 0;
+  const readOutline = (element: Element, visible: boolean): OutlineItem => {
+    const lineNumber = visible ? line++ : -1;
+    const outlines = childElements(element, 'outline');
+    const isExpanded = expanded === null || !visible || expanded.has(lineNumber);
+    return {
+      text: element.getAttribute('text') ?? element.getAttribute('title') ?? '',
+      collapsed: outlines.length > 0 && !isExpanded,
+      created: parseDate(element.getAttribute('created')),
+      ...readContent(element),
+      children: outlines.map(child => readOutline(child, visible && isExpanded)),
+    };
+  };
+
+  return {
+    title: title || undefined,
+    items: childElements(body, 'outline').map(outline => readOutline(outline, true)),
+  };
+}
+
+/**
+ * Serialize an outline as an OPML 2.0 document.
+ */
+export function serializeOpml(root: OutlineItem, title: string): string {
+  const lines: string[] = [];
+  const expandedLines: number[] = [];
+  let line = 0;
+
+  const writeOutline = (item: OutlineItem, depth: number, visible: boolean) => {
+    const isExpanded = !item.collapsed && item.children.length > 0;
+    if (visible && isExpanded) expandedLines.push(line);
+    if (visible) line++;
+
+    const created = item.created ? ` created="${escapeXml(new Date(item.created).toUTCString())}"` : '';
+    const link = item.links?.[0] ? ` type="link" url="${escapeXml(item.links[0].url)}"` : '';
+    const note = item.note ? ` _note="${escapeXml(item.note)}"` : '';
+    const task = item.task ? ` _status="${item.task === 'done' ? 'checked' : 'unchecked'}"` : '';
+    const open = `${INDENT.repeat(depth)}<outline text="${escapeXml(item.text)}"${created}${link}${note}${task}`;
+    if (item.children.length === 0) {
+      lines.push(`${open}/>`);
+      return;
+    }
+    lines.push(`${open}>`);
+    item.children.forEach(child => writeOutline(child, depth + 1, visible && isExpanded));
+    lines.push(`${INDENT.repeat(depth)}</outline>`);
+  };
+
+  writeOutline(root, 2, true);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `${INDENT}<head>`,
+    `${INDENT}${INDENT}<title>${escapeXml(title)}</title>`,
+    `${INDENT}${INDENT}<dateModified>${new Date().toUTCString()}</dateModified>`,
+    `${INDENT}${INDENT}<expansionState>${expandedLines.join(',')}</expansionState>`,
+    `${INDENT}</head>`,
+    `${INDENT}<body>`,
+    ...lines,
+    `${INDENT}</body>`,
+    '</opml>',
+    '',
+  ].join('\n');
+}
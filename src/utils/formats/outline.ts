@@ -0,0 +1,95 @@
+/**
+ * MapItOut Outline Model
+ *
+ * This module converts between the nodes Map and a plain nested outline
+ * (text, ordered children, and collapsed state/timestamps/styles/notes/links/tasks where a format has them).
+ * Text-based formats parse into and serialize from this model, so each format
+ * only deals with its own syntax.
+ *
+ * Update when: Adding node fields that interchange formats should carry.
+ */
+
+import { nanoid } from 'nanoid';
+import type { Node, OutlineItem } from '../../types';
+import { assignNodeContent } from '../node-content';
+
+// Root text used when an outline has several top-level items
+const DEFAULT_ROOT_TEXT = 'Outline';
+
+/**
+ * Build the outline under nodeId, keeping child order from Node.children.
+ * Collapsed subtrees are included; collapsing only affects the view.
+ */
+export function outlineFromNodes(nodes: Map<string, Node>, nodeId: string): OutlineItem | null {
+  const node = nodes.get(nodeId);
+  if (!node) return null;
+  return assignNodeContent<OutlineItem>({
+    text: node.text,
+    children: node.children
+      .map(childId => outlineFromNodes(nodes, childId))
+      .filter((item): item is OutlineItem => item !== null),
+    collapsed: node.metadata.collapsed,
+    created: node.metadata.created,
+    modified: node.metadata.modified,
+    style: node.style,
+  }, node);
+}
+
+/**
+ * Add outline items as new children of parentId (or as the root when parentId is null).
+ * Returns the new nodes Map and the ids of the top-level nodes that were added.
+ */
+export function attachOutline(
+  nodes: Map<string, Node>,
+  parentId: string | null,
+  items: OutlineItem[]
+): { nodes: Map<string, Node>; ids: string[] } {
+  const newNodes = new Map(nodes);
+  const now = Date.now();
+
+  const addItem = (item: OutlineItem, parent: string | null): string => {
+    const id = nanoid();
+    newNodes.set(id, assignNodeContent<Node>({
+      id,
+      text: item.text,
+      children: item.children.map(child => addItem(child, id)),
+      parent,
+      metadata: {
+        created: item.created ?? now,
+        modified: item.modified ?? item.created ?? now,
+        collapsed: item.collapsed === true && item.children.length > 0,
+      },
+      ...(item.style ? { style: item.style } : {}),
+    }, item));
+    return id;
+  };
+
+  const ids = items.map(item => addItem(item, parentId));
+
+  const parent = parentId ? newNodes.get(parentId) : undefined;
+  if (parent) {
+    // Expand a collapsed parent so the added nodes are visible
+    newNodes.set(parent.id, {
+      ...parent,
+      children: [...parent.children, ...ids],
+      metadata: { ...parent.metadata, modified: now, collapsed: false },
+    });
+  }
+
+  return { nodes: newNodes, ids };
+}
+
+/**
+ * Build a complete map from outline items. A single top-level item becomes the root;
+ * several are gathered under a new root node named rootText.
+ */
+export function nodesFromOutline(
+  items: OutlineItem[],
+  rootText: string = DEFAULT_ROOT_TEXT
+): { nodes: Map<string, Node>; rootId: string } {
+  const root: OutlineItem = items.length === 1
+    ? items[0]
+    : { text: rootText, children: items };
+  const { nodes, ids } = attachOutline(new Map(), null, [root]);
+  return { nodes, rootId: ids[0] };
+}
@@ -0,0 +1,116 @@
+/**
+ * MapItOut Format Registry
+ *
+ * This module lists the file formats maps can be opened from and saved to.
+ * Opening a file (toolbar or drop) picks the format by file extension;
+ * export menus list every format that can write, and the diagram dialog
+ * previews the diagram formats.
+ *
+ * Update when: Adding a file format (register it here with its reader and/or writer).
+ */
+
+import type { ExportableMap, MapFormat, MapFormatKey } from '../../types';
+import { findRootNode } from '../tree-operations';
+import { MAP_FILE_EXTENSION, MapFileError, parseMapFile, serializeMapFile } from './mapitout-file';
+import { nodesFromOutline, outlineFromNodes } from './outline';
+import { parseMarkdownOutline, serializeMarkdownOutline } from './markdown';
+import { parseOpml, serializeOpml } from './opml';
+import { parseFreeMind, serializeFreeMind } from './freemind';
+import { getDiagramDirection, serializeMermaidFlowchart, serializeMermaidMindmap } from './mermaid';
+import { serializeDot } from './dot';
+
+const formatRegistry = new Map<MapFormatKey, MapFormat>();
+
+/**
+ * Register a format. Registering an existing key replaces that format.
+ */
+export function registerMapFormat(format: MapFormat) {
+  formatRegistry.set(format.key, format);
+}
+
+export function getMapFormats(): MapFormat[] {
+  return Array.from(formatRegistry.values());
+}
+
+export function getMapFormat(key: MapFormatKey): MapFormat | undefined {
+  return formatRegistry.get(key);
+}
+
+/**
+ * Find the readable format for a file name, preferring the longest matching extension
+ * (so `.mapitout.json` wins over `.json`).
+ */
+export function findMapFormatForFile(fileName: string): MapFormat | undefined {
+  const name = fileName.toLowerCase();
+  let best: { format: MapFormat; length: number } | undefined;
+  formatRegistry.forEach(format => {
+    if (!format.read) return;
+    format.extensions.forEach(extension => {
+      if (name.endsWith(extension) && extension.length > (best?.length ?? 0)) {
+        best = { format, length: extension.length };
+      }
+    });
+  });
+  return best?.format;
+}
+
+/**
+ * The `accept` list for a file picker covering every readable format.
+ */
+export function getReadableFileAccept(): string {
+  return getMapFormats()
+    .filter(format => format.read)
+    .flatMap(format => format.extensions)
+    .join(',');
+}
+
+/**
+ * The root's outline, for outline-based writers.
+ */
+function getRootOutline(map: ExportableMap) {
+  const root = findRootNode(map.nodes);
+  const outline = root && outlineFromNodes(map.nodes, root.id);
+  if (!outline) throw new MapFileError('The map is empty.');
+  return outline;
+}
+
+registerMapFormat({
+  key: 'mapitout', label: 'MapItOut', extensions: [MAP_FILE_EXTENSION, '.json'], mimeType: 'application/json',
+  read: parseMapFile,
+  write: serializeMapFile,
+});
+registerMapFormat({
+  key: 'markdown', label: 'Markdown', extensions: ['.md', '.markdown', '.txt'], mimeType: 'text/markdown',
+  read: (text) => {
+    const items = parseMarkdownOutline(text);
+    if (items.length === 0) throw new MapFileError('No outline found in this file.');
+    return nodesFromOutline(items);
+  },
+  write: (map) => serializeMarkdownOutline(getRootOutline(map)),
+});
+registerMapFormat({
+  key: 'opml', label: 'OPML', extensions: ['.opml'], mimeType: 'text/x-opml',
+  read: (text) => {
+    const { title, items } = parseOpml(text);
+    if (items.length === 0) throw new MapFileError('The OPML file has no outlines.');
+    return { title, ...nodesFromOutline(items, title) };
+  },
+  write: (map) => serializeOpml(getRootOutline(map), map.title),
+});
+registerMapFormat({
+  key: 'freemind', label: 'FreeMind', extensions: ['.mm'], mimeType: 'application/x-freemind',
+  read: (text) => nodesFromOutline([parseFreeMind(text)]),
+  write: (map) => serializeFreeMind(getRootOutline(map)),
+});
+registerMapFormat({
+  key: 'mermaid-mindmap', label: 'Mermaid mindmap', extensions: ['.mmd'], mimeType: 'text/plain', diagram: true,
+  write: (map) => serializeMermaidMindmap(getRootOutline(map)),
+});
+registerMapFormat({
+  key: 'mermaid-flowchart', label: 'Mermaid flowchart', extensions: ['.mmd'], mimeType: 'text/plain', diagram: true,
+  write: (map) => serializeMermaidFlowchart(getRootOutline(map), getDiagramDirection(map.layoutType)),
+});
+registerMapFormat({
+  key: 'dot', label: 'Graphviz DOT', extensions: ['.dot', '.gv'], mimeType: 'text/vnd.graphviz', diagram: true,
+  write: (map) => serializeDot(getRootOutline(map), map.title, map.layoutType),
+});
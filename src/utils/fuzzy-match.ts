@@ -0,0 +1,61 @@
+/**
+ * MapItOut Fuzzy Matching
+ *
+ * This module scores how well a typed query matches a label, for the command
+ * palette. Query characters must appear in order (case-insensitive, spaces in
+ * the query are ignored); runs of consecutive characters and matches at word
+ * starts score higher, so "ztf" puts "Zoom to fit" near the top.
+ *
+ * Update when: Tuning palette ranking.
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  indices: number[];   // Matched character positions in the label, for highlighting
+}
+
+const CHAR_SCORE = 1;
+const CONSECUTIVE_BONUS = 4;
+const WORD_START_BONUS = 6;
+const GAP_PENALTY = 0.05;
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[\s\-_:/.(]/.test(text[index - 1]) ||
+  (/[a-z]/.test(text[index - 1]) && /[A-Z]/.test(text[index]));
+
+/**
+ * Match a query against a label. Null if the query's characters don't all appear in order.
+ */
+export function fuzzyMatch(query: string, label: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return { score: 0, indices: [] };
+
+  const haystack = label.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    // Prefer the next word start holding this character, else its next occurrence
+    let index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    for (let i = index; i !== -1; i = haystack.indexOf(char, i + 1)) {
+      if (isWordStart(label, i)) {
+        // Don't jump past a consecutive match
+        if (indices.length === 0 || index !== indices[indices.length - 1] + 1) index = i;
+        break;
+      }
+    }
+
+    const previous = indices[indices.length - 1];
+    score += CHAR_SCORE;
+    if (previous !== undefined && index === previous + 1) score += CONSECUTIVE_BONUS;
+    if (isWordStart(label, index)) score += WORD_START_BONUS;
+    score -= GAP_PENALTY * (index - from);
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  return { score, indices };
+}
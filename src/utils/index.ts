@@ -9,6 +9,51 @@
 
 // Export layout engines
 export * from './layout-engines';
+export * from './tidy-tree';
+export * from './node-metrics';
+export * from './text-measure';
 
-// Export tier-based color utilities
-export * from './tier-colors'; 
\ No newline at end of file
+// Export tier, style and theme color utilities
+export * from './tier-colors';
+export * from './node-style';
+export * from './themes';
+
+// Export node notes, links, task and tag helpers
+export * from './node-content';
+export * from './tags';
+
+// Export tree restructuring helpers
+export * from './tree-operations';
+
+// Export drag-and-drop helpers
+export * from './drag-drop';
+
+// Export connection (edge) rendering
+export * from './connection-renderer';
+
+// Export pan/zoom math
+export * from './viewport';
+
+// Export arrow-key navigation
+export * from './spatial-navigation';
+
+// Export node text search
+export * from './search';
+
+// Export view filters (what the canvas shows)
+export * from './displayed-nodes';
+
+// Export command palette matching
+export * from './fuzzy-match';
+
+// Export file download helpers
+export * from './download';
+
+// Export text import/export formats
+export * from './formats';
+
+// Export SVG/PDF rendering
+export * from './export';
+
+// Export XML helpers
+export * from './xml';
@@ -1,152 +1,180 @@
 /**
  * MapItOut Layout Engines
  * 
- * This module provides two layout algorithms:
- * - Center Layout: Mind map style, root in center, children alternate left/right
- * - Top Layout: Hierarchical tree, root at top, children in rows below
+ * This module provides the two core layout algorithms and the layout registry:
+ * - Center Layout: Mind map style, root in center, branches balanced left/right
+ * - Top Layout: Tidy hierarchical tree, root at top, parents centered over children
+ * 
+ * Additional layouts (horizontal, org chart, radial, fishbone) live in ./layouts
+ * and are registered below; the layout switcher lists whatever is registered.
+ * 
+ * Descendants of collapsed nodes get no position and are therefore not rendered.
  * 
  * Update when: Adding new layouts or modifying layout logic.
  */
 
-import type { Node, Position, LayoutType } from '../types';
+import type { LayoutDefinition, LayoutEngine, Node, NodeMeasureOptions, Position, LayoutType } from '../types';
+import { getVisibleChildren } from './tree-operations';
+import { getNodeSize } from './node-metrics';
+import { calculateTidyTree } from './tidy-tree';
+import {
+  calculateFishboneLayout,
+  calculateHorizontalLayout,
+  calculateOrgChartLayout,
+  calculateRadialLayout,
+} from './layouts';
 
 // Layout constants
 const CANVAS_CENTER_X = 800;
 const CANVAS_CENTER_Y = 400;
-const BASE_TIER_DISTANCE = 250;
-const TIER_DISTANCE_INCREMENT = 50;
-const SIBLING_VERTICAL_SPACING = 80;
-const TIER_VERTICAL_SPACING = 120;
+const TIER_HORIZONTAL_GAP = 120;
+const SIBLING_VERTICAL_GAP = 24;
+const TIER_VERTICAL_GAP = 80;
 const MIN_NODE_SPACING = 60;
+const TOP_LAYOUT_Y = 50;
+
+/**
+ * Total height a subtree needs when its children are stacked vertically.
+ */
+function measureSubtreeHeight(nodes: Map<string, Node>, node: Node, measure: NodeMeasureOptions): number {
+  const ownHeight = getNodeSize(node, measure).height;
+  const children = getVisibleChildren(nodes, node);
+  if (children.length === 0) return ownHeight;
 
-function getNodeWidth(text: string): number {
-  return Math.max(100, text.length * 8);
-  }
-  
-function getNodeHeight(): number {
-  return 40;
+  const stackedHeight = children.reduce((sum, child) => sum + measureSubtreeHeight(nodes, child, measure), 0)
+    + (children.length - 1) * SIBLING_VERTICAL_GAP;
+  return Math.max(ownHeight, stackedHeight);
 }
 
 /**
  * Center Layout (Mind Map Style)
  * - Root at center
- * - Tier 1: Alternate left/right
- * - Tier 2+: Branch based on parent position
+ * - Tier 1: Split between left and right so both halves carry similar subtree height
+ * - Tier 2+: Each half is a sideways tidy tree, so neighbouring branches never overlap
  */
-export function calculateCenterLayout(nodes: Map<string, Node>): Map<string, Position> {
+export function calculateCenterLayout(nodes: Map<string, Node>, measure: NodeMeasureOptions): Map<string, Position> {
   const positions = new Map<string, Position>();
   if (nodes.size === 0) return positions;
 
   // Find root (no parent)
   const rootNode = Array.from(nodes.values()).find(n => n.parent === null);
   if (!rootNode) return positions;
-    
-  // Place root at center
-  positions.set(rootNode.id, {
-    x: CANVAS_CENTER_X,
-    y: CANVAS_CENTER_Y,
-    width: getNodeWidth(rootNode.text),
-    height: getNodeHeight(),
+
+  // Greedily give each branch to the lighter side, keeping the original order within a side
+  const sides = { left: [] as string[], right: [] as string[] };
+  const sideHeights = { left: 0, right: 0 };
+  getVisibleChildren(nodes, rootNode).forEach(child => {
+    const side = sideHeights.left <= sideHeights.right ? 'left' : 'right';
+    sides[side].push(child.id);
+    sideHeights[side] += measureSubtreeHeight(nodes, child, measure) + SIBLING_VERTICAL_GAP;
   });
 
-  // Recursively position children
-  function positionTier(parentId: string, tier: number, side: 'left' | 'right' | null) {
-    const parent = nodes.get(parentId);
-    if (!parent) return;
-    const children = parent.children.map(id => nodes.get(id)).filter(Boolean) as Node[];
-    if (children.length === 0) return;
-
-    // Alternate left/right for tier 1, inherit for deeper tiers
-    let currentSide = side;
-    if (tier === 1) {
-      // Alternate left/right
-      children.forEach((child, i) => {
-        currentSide = i % 2 === 0 ? 'left' : 'right';
-        const parentPos = positions.get(parentId)!;
-        const x = parentPos.x + (currentSide === 'left' ? -BASE_TIER_DISTANCE : BASE_TIER_DISTANCE);
-        const y = parentPos.y + (i * SIBLING_VERTICAL_SPACING) - ((children.length - 1) * SIBLING_VERTICAL_SPACING / 2);
-        positions.set(child.id, {
-          x,
-          y,
-          width: getNodeWidth(child.text),
-          height: getNodeHeight(),
-        });
-        positionTier(child.id, tier + 1, currentSide);
-      });
-    } else {
-      // Inherit side from parent
-      children.forEach((child, i) => {
-        const parentPos = positions.get(parentId)!;
-        const x = parentPos.x + (currentSide === 'left' ? -(BASE_TIER_DISTANCE + (tier - 1) * TIER_DISTANCE_INCREMENT) : (BASE_TIER_DISTANCE + (tier - 1) * TIER_DISTANCE_INCREMENT));
-        const y = parentPos.y + (i * SIBLING_VERTICAL_SPACING) - ((children.length - 1) * SIBLING_VERTICAL_SPACING / 2);
-        positions.set(child.id, {
-          x,
-          y,
-          width: getNodeWidth(child.text),
-          height: getNodeHeight(),
-        });
-        positionTier(child.id, tier + 1, currentSide);
+  const origin = { x: CANVAS_CENTER_X, y: CANVAS_CENTER_Y };
+  (['left', 'right'] as const).forEach(side => {
+    // Lay out this half as if the root only had this side's children
+    const sideNodes = new Map(nodes);
+    sideNodes.set(rootNode.id, { ...rootNode, children: sides[side] });
+
+    const sidePositions = calculateTidyTree(sideNodes, rootNode.id, origin, {
+      orientation: 'horizontal',
+      siblingGap: SIBLING_VERTICAL_GAP,
+      levelGap: TIER_HORIZONTAL_GAP,
+      measure,
     });
-  }
-}
 
-  positionTier(rootNode.id, 1, null);
+    sidePositions.forEach((pos, id) => {
+      // The left half is the right-growing tree mirrored around the root
+      positions.set(id, side === 'left' ? { ...pos, x: 2 * origin.x - pos.x } : pos);
+    });
+  });
+
   return positions;
 }
 
 /**
  * Top Layout (Hierarchical Tree)
  * - Root at top center
- * - Each tier is a horizontal row
- * - Even distribution within tiers
+ * - Tidy tree: parents centered over their children
+ * - Sibling subtrees packed as tightly as possible without overlapping
  */
-export function calculateTopLayout(nodes: Map<string, Node>): Map<string, Position> {
-  const positions = new Map<string, Position>();
-  if (nodes.size === 0) return positions;
+export function calculateTopLayout(nodes: Map<string, Node>, measure: NodeMeasureOptions): Map<string, Position> {
+  if (nodes.size === 0) return new Map();
 
   // Find root (no parent)
   const rootNode = Array.from(nodes.values()).find(n => n.parent === null);
-  if (!rootNode) return positions;
-        
-  // Build depth map
-  const depthMap = new Map<string, number>();
-  function assignDepth(node: Node, depth: number) {
-    depthMap.set(node.id, depth);
-    node.children.forEach(childId => {
-      const child = nodes.get(childId);
-      if (child) assignDepth(child, depth + 1);
-    });
-  }
-  assignDepth(rootNode, 0);
-    
-  // Group nodes by depth
-  const maxDepth = Math.max(...depthMap.values());
-  for (let depth = 0; depth <= maxDepth; depth++) {
-    const tierNodes = Array.from(nodes.values()).filter(n => depthMap.get(n.id) === depth);
-    if (tierNodes.length === 0) continue;
-    const y = 50 + (depth * TIER_VERTICAL_SPACING);
-    const totalWidth = tierNodes.reduce((sum, node) => sum + getNodeWidth(node.text), 0) + (tierNodes.length - 1) * MIN_NODE_SPACING;
-    let x = CANVAS_CENTER_X - (totalWidth / 2);
-    tierNodes.forEach(node => {
-      const width = getNodeWidth(node.text);
-      positions.set(node.id, {
-        x: x + (width / 2),
-        y,
-        width,
-        height: getNodeHeight(),
-      });
-      x += width + MIN_NODE_SPACING;
-    });
-  }
+  if (!rootNode) return new Map();
 
-  return positions;
+  return calculateTidyTree(nodes, rootNode.id, { x: CANVAS_CENTER_X, y: TOP_LAYOUT_Y }, {
+    orientation: 'vertical',
+    siblingGap: MIN_NODE_SPACING,
+    levelGap: TIER_VERTICAL_GAP,
+    measure,
+  });
+}
+
+/**
+ * Layout registry: every selectable layout, in switcher order
+ */
+const layoutRegistry = new Map<LayoutType, LayoutDefinition>();
+
+/**
+ * Register a layout so it can be selected and calculated.
+ * Registering an existing key replaces that layout.
+ */
+export function registerLayout(definition: LayoutDefinition) {
+  layoutRegistry.set(definition.key, definition);
+}
+
+export function getLayoutDefinitions(): LayoutDefinition[] {
+  return Array.from(layoutRegistry.values());
 }
 
 /**
- * Layout manager: chooses the correct layout based on type
+ * Look up a layout, falling back to the center layout for unknown keys (e.g. from old saves)
  */
-export function calculateLayout(nodes: Map<string, Node>, layoutType: LayoutType): Map<string, Position> {
-  if (layoutType === 'center') return calculateCenterLayout(nodes);
-  if (layoutType === 'top') return calculateTopLayout(nodes);
-  return new Map();
-} 
\ No newline at end of file
+export function getLayoutDefinition(layoutType: LayoutType): LayoutDefinition {
+  return layoutRegistry.get(layoutType) ?? layoutRegistry.get('center')!;
+}
+
+/**
+ * Whether a value (e.g. from a file) names a registered layout.
+ */
+export function isLayoutType(value: unknown): value is LayoutType {
+  return getLayoutDefinitions().some(definition => definition.key === value);
+}
+
+const engine = (calculatePositions: LayoutEngine['calculatePositions']): LayoutEngine => ({ calculatePositions });
+
+registerLayout({
+  key: 'center', label: 'Center', icon: '🎯', description: 'Mind map style with center root',
+  engine: engine(calculateCenterLayout), siblingAxis: 'y', connectionAxis: 'horizontal',
+});
+registerLayout({
+  key: 'top', label: 'Top', icon: '🌳', description: 'Hierarchical tree from top',
+  engine: engine(calculateTopLayout), siblingAxis: 'x', connectionAxis: 'vertical',
+});
+registerLayout({
+  key: 'horizontal', label: 'Right', icon: '➡️', description: 'Left-to-right tree',
+  engine: engine(calculateHorizontalLayout), siblingAxis: 'y', connectionAxis: 'horizontal',
+});
+registerLayout({
+  key: 'org', label: 'Org', icon: '🏢', description: 'Compact org chart with stacked leaf nodes',
+  engine: engine(calculateOrgChartLayout), siblingAxis: 'x', connectionAxis: 'vertical',
+});
+registerLayout({
+  key: 'radial', label: 'Radial', icon: '🌞', description: 'Sunburst rings around the root',
+  engine: engine(calculateRadialLayout), siblingAxis: 'y', connectionAxis: 'auto',
+});
+registerLayout({
+  key: 'fishbone', label: 'Fishbone', icon: '🐟', description: 'Ishikawa cause-and-effect diagram',
+  engine: engine(calculateFishboneLayout), siblingAxis: 'x', connectionAxis: 'auto',
+});
+
+/**
+ * Layout manager: calculates positions with the registered layout for the given type.
+ * Node sizes depend on the font and wrap width the nodes are drawn with, so pass those of the map.
+ */
+export function calculateLayout(nodes: Map<string, Node>, layoutType: LayoutType, measure: NodeMeasureOptions): Map<string, Position> {
+  if (nodes.size === 0) return new Map();
+  return getLayoutDefinition(layoutType).engine.calculatePositions(nodes, measure);
+}
@@ -0,0 +1,101 @@
+/**
+ * MapItOut Fishbone Layout
+ *
+ * Ishikawa (cause-and-effect) diagram:
+ * - Root is the "head" on the right, with an implied spine running left
+ * - Tier 1 nodes are the major cause categories, alternating above and
+ *   below the spine in pairs that share a column
+ * - Deeper nodes are listed along each category's bone, between the category
+ *   and the spine, indented by depth and slanting toward the head
+ *
+ * Update when: Modifying fishbone spacing, slant, or category placement.
+ */
+
+import type { Node, NodeMeasureOptions, Position } from '../../types';
+import { getNodeSize } from '../node-metrics';
+import { findRootNode, getVisibleChildren } from '../tree-operations';
+
+// Layout constants
+const HEAD_X = 1400;
+const SPINE_Y = 400;
+const HEAD_GAP = 80;          // Space between the head and the first column
+const COLUMN_GAP = 60;
+const SPINE_CLEARANCE = 40;   // Space between the spine and the nearest cause
+const ROW_GAP = 10;
+const DEPTH_INDENT = 30;
+const BONE_SLANT = 12;        // Each row toward the spine shifts this far toward the head
+
+interface CauseRow {
+  node: Node;
+  depth: number;   // 1 = direct cause of the category
+  width: number;
+  height: number;
+}
+
+export function calculateFishboneLayout(nodes: Map<string, Node>, measure: NodeMeasureOptions): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const rootNode = findRootNode(nodes);
+  if (!rootNode) return positions;
+
+  const headSize = getNodeSize(rootNode, measure);
+  positions.set(rootNode.id, { x: HEAD_X, y: SPINE_Y, ...headSize });
+
+  // Flatten a category's descendants into rows, in outline order
+  const collectRows = (node: Node, depth: number, rows: CauseRow[]) => {
+    getVisibleChildren(nodes, node).forEach(child => {
+      rows.push({ node: child, depth, ...getNodeSize(child, measure) });
+      collectRows(child, depth + 1, rows);
+    });
+    return rows;
+  };
+
+  const categories = getVisibleChildren(nodes, rootNode).map(category => {
+    const size = getNodeSize(category, measure);
+    const rows = collectRows(category, 1, []);
+    const width = Math.max(
+      size.width,
+      ...rows.map((row, i) => row.depth * DEPTH_INDENT + i * BONE_SLANT + row.width)
+    );
+    return { node: category, size, rows, width };
+  });
+
+  // Walk leftward along the spine, one column per top/bottom pair
+  let columnRight = HEAD_X - headSize.width / 2 - HEAD_GAP;
+  for (let i = 0; i < categories.length; i += 2) {
+    const pair = categories.slice(i, i + 2);
+    const columnWidth = Math.max(...pair.map(category => category.width));
+    const columnLeft = columnRight - columnWidth;
+
+    pair.forEach((category, sideIndex) => {
+      const above = sideIndex === 0;
+      const direction = above ? -1 : 1; // Away from the spine
+      const rowsHeight = category.rows.reduce((sum, row) => sum + row.height + ROW_GAP, 0);
+
+      // Category sits at the far end of its bone
+      const categoryY = SPINE_Y + direction * (SPINE_CLEARANCE + rowsHeight + category.size.height / 2);
+      positions.set(category.node.id, {
+        x: columnLeft + category.size.width / 2,
+        y: categoryY,
+        ...category.size,
+      });
+
+      // Rows run from the category back toward the spine
+      let edge = categoryY - direction * category.size.height / 2;
+      category.rows.forEach((row, rowIndex) => {
+        edge -= direction * ROW_GAP;
+        const centerY = edge - direction * row.height / 2;
+        positions.set(row.node.id, {
+          x: columnLeft + row.depth * DEPTH_INDENT + rowIndex * BONE_SLANT + row.width / 2,
+          y: centerY,
+          width: row.width,
+          height: row.height,
+        });
+        edge -= direction * row.height;
+      });
+    });
+
+    columnRight = columnLeft - COLUMN_GAP;
+  }
+
+  return positions;
+}
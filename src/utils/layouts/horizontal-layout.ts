@@ -0,0 +1,30 @@
+/**
+ * MapItOut Horizontal Layout
+ *
+ * Left-to-right tree: root on the left, each generation in its own column,
+ * siblings stacked vertically using the shared tidy tree algorithm.
+ *
+ * Update when: Modifying horizontal tree spacing or origin.
+ */
+
+import type { Node, NodeMeasureOptions, Position } from '../../types';
+import { calculateTidyTree } from '../tidy-tree';
+import { findRootNode } from '../tree-operations';
+
+// Layout constants
+const ORIGIN_X = 200;
+const ORIGIN_Y = 400;
+const COLUMN_GAP = 100;
+const SIBLING_GAP = 24;
+
+export function calculateHorizontalLayout(nodes: Map<string, Node>, measure: NodeMeasureOptions): Map<string, Position> {
+  const rootNode = findRootNode(nodes);
+  if (!rootNode) return new Map();
+
+  return calculateTidyTree(nodes, rootNode.id, { x: ORIGIN_X, y: ORIGIN_Y }, {
+    orientation: 'horizontal',
+    siblingGap: SIBLING_GAP,
+    levelGap: COLUMN_GAP,
+    measure,
+  });
+}
@@ -0,0 +1,13 @@
+/**
+ * MapItOut Additional Layouts Index
+ *
+ * This file exports the layout algorithms that live outside layout-engines.ts.
+ * They are registered with the layout registry in layout-engines.ts.
+ *
+ * Update when: Adding new layout modules.
+ */
+
+export { calculateHorizontalLayout } from './horizontal-layout';
+export { calculateOrgChartLayout } from './org-chart-layout';
+export { calculateRadialLayout } from './radial-layout';
+export { calculateFishboneLayout } from './fishbone-layout';
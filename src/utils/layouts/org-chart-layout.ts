@@ -0,0 +1,109 @@
+/**
+ * MapItOut Org Chart Layout
+ *
+ * Compact top-down org chart:
+ * - Parents centered above their child subtrees, which sit side by side
+ * - Children that are all leaves are stacked in a single column below the
+ *   parent instead of spreading sideways, keeping wide teams narrow
+ *
+ * Stacked leaves are marked with entry: 'side' so connections run down a
+ * rail from the parent and into each leaf from the left.
+ *
+ * Update when: Modifying org chart spacing or the leaf stacking rule.
+ */
+
+import type { Node, NodeMeasureOptions, Position } from '../../types';
+import { getNodeSize } from '../node-metrics';
+import { findRootNode, getVisibleChildren } from '../tree-operations';
+
+// Layout constants
+const ORIGIN_X = 800;
+const ORIGIN_Y = 50;
+const LEVEL_GAP = 60;
+const SIBLING_GAP = 40;
+const LEAF_GAP = 12;
+const LEAF_INDENT = 24;   // Stacked leaves start this far right of the parent's center line
+
+interface Block {
+  width: number;
+  height: number;
+  // Place the block with its top-left corner at (left, top)
+  place: (left: number, top: number) => void;
+}
+
+export function calculateOrgChartLayout(nodes: Map<string, Node>, measure: NodeMeasureOptions): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const rootNode = findRootNode(nodes);
+  if (!rootNode) return positions;
+
+  const layoutBlock = (node: Node): Block => {
+    const size = getNodeSize(node, measure);
+    const children = getVisibleChildren(nodes, node);
+
+    // Leaf
+    if (children.length === 0) {
+      return {
+        ...size,
+        place: (left, top) => {
+          positions.set(node.id, { x: left + size.width / 2, y: top + size.height / 2, ...size });
+        },
+      };
+    }
+
+    // All children are leaves: stack them in a column hanging off the parent
+    if (children.length > 1 && children.every(child => getVisibleChildren(nodes, child).length === 0)) {
+      const leafSizes = children.map(child => getNodeSize(child, measure));
+      const columnWidth = Math.max(...leafSizes.map(leaf => leaf.width));
+      // Symmetric around the parent's center line so the parent stays centered in its block
+      const width = Math.max(size.width, 2 * (LEAF_INDENT + columnWidth));
+      const height = size.height + leafSizes.reduce((sum, leaf) => sum + LEAF_GAP + leaf.height, 0);
+
+      return {
+        width,
+        height,
+        place: (left, top) => {
+          const centerX = left + width / 2;
+          positions.set(node.id, { x: centerX, y: top + size.height / 2, ...size });
+
+          let y = top + size.height;
+          children.forEach((child, i) => {
+            const leaf = leafSizes[i];
+            y += LEAF_GAP;
+            positions.set(child.id, {
+              x: centerX + LEAF_INDENT + leaf.width / 2,
+              y: y + leaf.height / 2,
+              ...leaf,
+              entry: 'side',
+            });
+            y += leaf.height;
+          });
+        },
+      };
+    }
+
+    // General case: child blocks side by side, parent centered above them
+    const blocks = children.map(layoutBlock);
+    const rowWidth = blocks.reduce((sum, block) => sum + block.width, 0) + (blocks.length - 1) * SIBLING_GAP;
+    const width = Math.max(size.width, rowWidth);
+    const height = size.height + LEVEL_GAP + Math.max(...blocks.map(block => block.height));
+
+    return {
+      width,
+      height,
+      place: (left, top) => {
+        positions.set(node.id, { x: left + width / 2, y: top + size.height / 2, ...size });
+
+        let x = left + (width - rowWidth) / 2;
+        blocks.forEach(block => {
+          block.place(x, top + size.height + LEVEL_GAP);
+          x += block.width + SIBLING_GAP;
+        });
+      },
+    };
+  };
+
+  const rootBlock = layoutBlock(rootNode);
+  rootBlock.place(ORIGIN_X - rootBlock.width / 2, ORIGIN_Y - getNodeSize(rootNode, measure).height / 2);
+
+  return positions;
+}
@@ -0,0 +1,86 @@
+/**
+ * MapItOut Radial Layout
+ *
+ * Sunburst-style layout: root at the center, each generation on a ring.
+ * Every subtree gets an angular wedge proportional to its number of visible
+ * leaves, and children sit in the middle of their share of the parent's wedge.
+ * Rings grow outward until every node fits its wedge without overlapping.
+ *
+ * Update when: Modifying ring spacing or wedge allocation.
+ */
+
+import type { Node, NodeMeasureOptions, Position } from '../../types';
+import { getNodeSize } from '../node-metrics';
+import { findRootNode, getVisibleChildren } from '../tree-operations';
+
+// Layout constants
+const CENTER_X = 800;
+const CENTER_Y = 400;
+const RING_SPACING = 200;
+const NODE_GAP = 20;
+
+interface Placement {
+  node: Node;
+  depth: number;
+  angle: number;  // Center of the node's wedge, in radians
+  wedge: number;  // Angular size of the node's wedge
+}
+
+export function calculateRadialLayout(nodes: Map<string, Node>, measure: NodeMeasureOptions): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const rootNode = findRootNode(nodes);
+  if (!rootNode) return positions;
+
+  // Visible leaf count per subtree decides how much of the circle it gets
+  const leafCounts = new Map<string, number>();
+  const countLeaves = (node: Node): number => {
+    const children = getVisibleChildren(nodes, node);
+    const count = children.length === 0 ? 1 : children.reduce((sum, child) => sum + countLeaves(child), 0);
+    leafCounts.set(node.id, count);
+    return count;
+  };
+  countLeaves(rootNode);
+
+  // Assign wedges top-down, starting at 12 o'clock
+  const placements: Placement[] = [];
+  const assign = (node: Node, depth: number, start: number, wedge: number) => {
+    placements.push({ node, depth, angle: start + wedge / 2, wedge });
+    const children = getVisibleChildren(nodes, node);
+    const total = leafCounts.get(node.id) ?? 1;
+    let childStart = start;
+    children.forEach(child => {
+      const childWedge = wedge * (leafCounts.get(child.id) ?? 1) / total;
+      assign(child, depth + 1, childStart, childWedge);
+      childStart += childWedge;
+    });
+  };
+  assign(rootNode, 0, -Math.PI / 2, Math.PI * 2);
+
+  // Each ring must be far enough out that its nodes fit their wedges (arc length ≥ node size),
+  // and far enough from the previous ring that the widest nodes of both don't touch
+  const ringRadii: number[] = [0];
+  const ringExtents: number[] = [];
+  placements.forEach(({ node, depth, wedge }) => {
+    const size = getNodeSize(node, measure);
+    const extent = Math.max(size.width, size.height);
+    ringExtents[depth] = Math.max(ringExtents[depth] ?? 0, extent);
+    if (depth === 0) return;
+    const needed = (extent + NODE_GAP) / Math.min(wedge, Math.PI);
+    ringRadii[depth] = Math.max(ringRadii[depth] ?? 0, needed);
+  });
+  for (let depth = 1; depth < ringExtents.length; depth++) {
+    const clearance = (ringExtents[depth - 1] + ringExtents[depth]) / 2 + NODE_GAP;
+    ringRadii[depth] = Math.max(ringRadii[depth] ?? 0, ringRadii[depth - 1] + Math.max(RING_SPACING, clearance));
+  }
+
+  placements.forEach(({ node, depth, angle }) => {
+    const radius = ringRadii[depth];
+    positions.set(node.id, {
+      x: CENTER_X + radius * Math.cos(angle),
+      y: CENTER_Y + radius * Math.sin(angle),
+      ...getNodeSize(node, measure),
+    });
+  });
+
+  return positions;
+}
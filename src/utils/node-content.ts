@@ -0,0 +1,150 @@
+/**
+ * MapItOut Node Content
+ *
+ * This module handles what a node carries besides its text: a Markdown note,
+ * hyperlinks, a checkbox (task) state and tags (see tags.ts).
+ * - Links are limited to http(s) and mailto URLs, so files can't smuggle in script URLs
+ * - Empty notes, empty link and tag lists and unset task states are dropped, so plain nodes stay plain
+ * - Task progress rolls up: every node counts the tasks anywhere below it
+ *
+ * Update when: Adding node content fields or changing how task progress is counted.
+ */
+
+import type { Node, NodeContent, NodeLink, TaskProgress, TaskState } from '../types';
+import { sanitizeTags } from './tags';
+
+// Checkbox glyphs, drawn as part of the node label so sizes and exports include them
+export const TASK_MARKS: Record<TaskState, string> = { todo: '☐', done: '☑' };
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+const EMAIL_PATTERN = /^[^\s@/]+@[^\s@/]+\.[^\s@/]+$/;
+
+/**
+ * A safe URL for what the user typed, or null if it isn't a web or mail link.
+ * Bare domains get https:// and bare email addresses get mailto:.
+ */
+export function normalizeUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed || /\s/.test(trimmed)) return null;
+
+  let candidate = trimmed;
+  if (!SCHEME_PATTERN.test(trimmed)) {
+    candidate = EMAIL_PATTERN.test(trimmed) ? `mailto:${trimmed}` : `https://${trimmed}`;
+  }
+
+  try {
+    const url = new URL(candidate);
+    if (!ALLOWED_PROTOCOLS.includes(url.protocol)) return null;
+    // Web links need a host with a dot (or localhost), so stray words aren't taken for domains
+    if (url.protocol !== 'mailto:' && !url.hostname.includes('.') && url.hostname !== 'localhost') return null;
+    return candidate;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A link's display text: its title, or the URL without the scheme.
+ */
+export function getLinkLabel(link: NodeLink): string {
+  return link.title || link.url.replace(/^(https?:\/\/|mailto:)/, '').replace(/\/$/, '');
+}
+
+/**
+ * Keep only valid links (safe URLs, trimmed titles). Returns undefined when none are left.
+ * Accepts untrusted data, e.g. from files.
+ */
+export function sanitizeNodeLinks(raw: unknown): NodeLink[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const links: NodeLink[] = [];
+
+  raw.forEach(entry => {
+    if (typeof entry !== 'object' || entry === null) return;
+    const { url, title } = entry as Record<string, unknown>;
+    const safeUrl = typeof url === 'string' ? normalizeUrl(url) : null;
+    if (!safeUrl) return;
+    const safeTitle = typeof title === 'string' ? title.trim() : '';
+    links.push(safeTitle ? { url: safeUrl, title: safeTitle } : { url: safeUrl });
+  });
+
+  return links.length > 0 ? links : undefined;
+}
+
+/**
+ * Keep only valid content fields; blank notes, empty link and tag lists and unknown task states are dropped.
+ * Accepts untrusted data, e.g. from files.
+ */
+export function sanitizeNodeContent(raw: Record<string, unknown>): NodeContent {
+  const content: NodeContent = {};
+  if (typeof raw.note === 'string' && raw.note.trim()) content.note = raw.note;
+  const links = sanitizeNodeLinks(raw.links);
+  if (links) content.links = links;
+  if (raw.task === 'todo' || raw.task === 'done') content.task = raw.task;
+  const tags = sanitizeTags(raw.tags);
+  if (tags) content.tags = tags;
+  return content;
+}
+
+/**
+ * Copy the set content fields onto a node or outline item (the target is changed and returned).
+ */
+export function assignNodeContent<T extends NodeContent>(target: T, content: NodeContent): T {
+  if (content.note) target.note = content.note;
+  if (content.links?.length) target.links = content.links;
+  if (content.task) target.task = content.task;
+  if (content.tags?.length) target.tags = content.tags;
+  return target;
+}
+
+/**
+ * Apply content changes to a node; fields given as undefined (or empty) are removed.
+ */
+export function mergeNodeContent(node: Node, changes: NodeContent): Node {
+  const merged = { ...node, ...changes };
+  const updated: Node = { ...node };
+  delete updated.note;
+  delete updated.links;
+  delete updated.task;
+  delete updated.tags;
+  return assignNodeContent(updated, sanitizeNodeContent(merged as unknown as Record<string, unknown>));
+}
+
+/**
+ * Done and total task counts below every node that has tasks beneath it (the node itself
+ * isn't counted). Collapsed branches count too.
+ */
+export function getTaskProgress(nodes: Map<string, Node>): Map<string, TaskProgress> {
+  const progress = new Map<string, TaskProgress>();
+
+  // Returns the counts of the subtree including the node itself
+  const count = (id: string): TaskProgress => {
+    const node = nodes.get(id);
+    if (!node) return { done: 0, total: 0 };
+
+    const below = { done: 0, total: 0 };
+    node.children.forEach(childId => {
+      const child = count(childId);
+      below.done += child.done;
+      below.total += child.total;
+    });
+    if (below.total > 0) progress.set(id, below);
+
+    return {
+      done: below.done + (node.task === 'done' ? 1 : 0),
+      total: below.total + (node.task ? 1 : 0),
+    };
+  };
+
+  nodes.forEach(node => {
+    if (!node.parent) count(node.id);
+  });
+  return progress;
+}
+
+/**
+ * Progress as shown on nodes, e.g. "3/7".
+ */
+export function formatTaskProgress(progress: TaskProgress): string {
+  return `${progress.done}/${progress.total}`;
+}
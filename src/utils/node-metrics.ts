@@ -0,0 +1,151 @@
+/**
+ * MapItOut Node Metrics
+ *
+ * This module sizes a node's box from its label (checkbox, icon and text), measured in the
+ * node's font by the text measurement service. The numbers mirror the .node-base /
+ * .node-text styles in index.css (14px medium text, 1.2 line height, px-3 py-2
+ * padding, 2px border); boxes are 100px wide at least and wrap their text at the
+ * map's node width, so layouts reserve exactly the space the browser will draw.
+ * Bold and large emphasis change the font; pill and ellipse shapes add room
+ * around the text for their curved sides. The font family (the theme's) and the
+ * node width are passed in by whoever lays out or draws the nodes (the canvas,
+ * commands, exports).
+ *
+ * Update when: Changing node padding, fonts, shapes, or width limits (change index.css to match).
+ */
+
+import type { Node, NodeMeasureOptions, NodeStyle } from '../types';
+import { layoutText } from './text-measure';
+import { TASK_MARKS } from './node-content';
+import type { TextLayout } from './text-measure';
+
+export const NODE_MIN_WIDTH = 100;
+export const DEFAULT_NODE_MAX_WIDTH = 250;         // Text wraps to keep boxes within the map's node width
+export const NODE_MIN_HEIGHT = 40;
+
+// Text and box styling, shared with exporters so exported nodes match the canvas
+export const NODE_FONT_SIZE = 14;                  // text-sm
+export const NODE_LARGE_FONT_SIZE = 18;            // text-lg, for large emphasis
+export const NODE_FONT_WEIGHT = 500;               // font-medium
+export const NODE_BOLD_FONT_WEIGHT = 700;          // font-bold
+export const NODE_FONT_FAMILY = "Inter, system-ui, sans-serif";  // Default, themes may use another
+export const NODE_LINE_HEIGHT_RATIO = 1.2;
+export const NODE_LINE_HEIGHT = NODE_FONT_SIZE * NODE_LINE_HEIGHT_RATIO;
+export const NODE_BORDER_WIDTH = 2;                // border-2
+export const NODE_CORNER_RADIUS = 8;               // rounded-lg
+export const NODE_PADDING_X = 12;                  // px-3
+export const NODE_PADDING_Y = 8;                   // py-2
+
+const BORDER = NODE_BORDER_WIDTH * 2;
+// Measured widths are fractional; the browser needs the rounded-up width plus a pixel to avoid rewrapping
+const ROUNDING_SLACK = 1;
+// Pill ends are half circles; this much of the height keeps text clear of them on each side
+const PILL_INSET_RATIO = 0.25;
+
+// Node widths a map can choose; Normal matches maps from before the setting existed
+export const NODE_WIDTH_OPTIONS: { key: string; label: string; width: number }[] = [
+  { key: 'narrow', label: 'Narrow', width: 180 },
+  { key: 'normal', label: 'Normal', width: DEFAULT_NODE_MAX_WIDTH },
+  { key: 'wide', label: 'Wide', width: 360 },
+  { key: 'extra-wide', label: 'Extra wide', width: 500 },
+];
+
+/**
+ * Whether a value (e.g. from a file) is one of the node widths a map can use.
+ */
+export function isNodeWidth(value: unknown): value is number {
+  return NODE_WIDTH_OPTIONS.some(option => option.width === value);
+}
+
+// The parts of a node its size depends on
+type SizedNode = Pick<Node, 'text' | 'style' | 'task'>;
+
+export interface NodeSize {
+  width: number;
+  height: number;
+}
+
+export interface NodeTextStyle {
+  fontSize: number;
+  fontWeight: number;
+  lineHeight: number;
+}
+
+/**
+ * Font size, weight and line height for a node's text.
+ */
+export function getNodeTextStyle(style?: NodeStyle): NodeTextStyle {
+  const fontSize = style?.large ? NODE_LARGE_FONT_SIZE : NODE_FONT_SIZE;
+  return {
+    fontSize,
+    fontWeight: style?.bold ? NODE_BOLD_FONT_WEIGHT : NODE_FONT_WEIGHT,
+    lineHeight: fontSize * NODE_LINE_HEIGHT_RATIO,
+  };
+}
+
+/**
+ * The text a node displays: its checkbox and icon, if any, followed by its text.
+ */
+export function getNodeLabel(node: SizedNode): string {
+  const prefix = [node.task && TASK_MARKS[node.task], node.style?.icon].filter(Boolean);
+  return prefix.length > 0 ? `${prefix.join(' ')} ${node.text}` : node.text;
+}
+
+const layoutNodeText = (node: SizedNode, { fontFamily, maxWidth }: NodeMeasureOptions): TextLayout => {
+  const { fontSize, fontWeight, lineHeight } = getNodeTextStyle(node.style);
+  return layoutText(getNodeLabel(node), {
+    font: `${fontWeight} ${fontSize}px ${fontFamily}`,
+    fontSize,
+    lineHeight,
+    maxWidth: maxWidth - NODE_PADDING_X * 2 - BORDER - ROUNDING_SLACK,
+  });
+};
+
+/**
+ * Break a node's label into the lines the browser draws: explicit line breaks first,
+ * then word wrapping at the maximum content width (long words are split).
+ * Exporters draw these lines; getNodeSize sizes the box for them.
+ */
+export function wrapNodeText(node: SizedNode, measure: NodeMeasureOptions): string[] {
+  return layoutNodeText(node, measure).lines;
+}
+
+// The rectangular box around the text, before shape insets
+function getBoxSize(node: SizedNode, measure: NodeMeasureOptions): NodeSize {
+  const { width, height } = layoutNodeText(node, measure);
+  return {
+    width: Math.min(measure.maxWidth, Math.max(NODE_MIN_WIDTH, Math.ceil(width) + ROUNDING_SLACK + NODE_PADDING_X * 2 + BORDER)),
+    height: Math.max(NODE_MIN_HEIGHT, Math.ceil(height + NODE_PADDING_Y * 2 + BORDER)),
+  };
+}
+
+function getShapeInset(node: SizedNode, box: NodeSize): { x: number; y: number } {
+  switch (node.style?.shape) {
+    case 'pill':
+      return { x: Math.round(box.height * PILL_INSET_RATIO), y: 0 };
+    case 'ellipse':
+      // The ellipse through the box's corners has the same aspect ratio, √2 times larger
+      return { x: Math.round(box.width * (Math.SQRT2 - 1) / 2), y: Math.round(box.height * (Math.SQRT2 - 1) / 2) };
+    default:
+      return { x: 0, y: 0 };
+  }
+}
+
+/**
+ * Extra room on each side of the text that the node's shape needs, beyond the normal padding.
+ */
+export function getNodeShapeInset(node: SizedNode, measure: NodeMeasureOptions): { x: number; y: number } {
+  return getShapeInset(node, getBoxSize(node, measure));
+}
+
+/**
+ * A node's size from its label, wrapped and measured with the given font and width, and its shape.
+ */
+export function getNodeSize(node: SizedNode, measure: NodeMeasureOptions): NodeSize {
+  const box = getBoxSize(node, measure);
+  const inset = getShapeInset(node, box);
+  return {
+    width: box.width + inset.x * 2,
+    height: box.height + inset.y * 2,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * MapItOut Node Styles
+ *
+ * This module resolves a node's own style against the theme's tier defaults:
+ * - A custom border color replaces the tier color and tints the fill the same way
+ * - A custom fill is drawn stronger than tier fills, but translucent so the theme's text stays readable
+ * It also lists the shapes, colors and icons the style editor offers, and cleans up
+ * styles so unset fields never end up in saved maps.
+ * The live renderer and the export scene both resolve node colors here.
+ *
+ * Update when: Adding style options or changing how custom colors are drawn.
+ */
+
+import type { Node, NodeShape, NodeStyle, ThemeDefinition } from '../types';
+import { getNodeColorInfo } from './tier-colors';
+
+export const NODE_SHAPE_OPTIONS: { key: NodeShape; label: string; icon: string }[] = [
+  { key: 'rounded', label: 'Rounded', icon: '▢' },
+  { key: 'pill', label: 'Pill', icon: '⬭' },
+  { key: 'rectangle', label: 'Rectangle', icon: '□' },
+  { key: 'ellipse', label: 'Ellipse', icon: '◯' },
+  { key: 'underline', label: 'Underline', icon: '▁' },
+];
+
+// Tailwind 500 shades (plus slate and white), matching the dark theme's palette
+export const STYLE_COLORS = [
+  '#ef4444', '#f97316', '#f59e0b', '#22c55e', '#14b8a6', '#3b82f6',
+  '#6366f1', '#a855f7', '#ec4899', '#64748b', '#ffffff',
+];
+
+export const STYLE_ICONS = ['⭐', '✅', '❌', '⚠️', '❓', '💡', '🔥', '📌', '📅', '👤', '💰', '🚀'];
+
+export const HIGHLIGHT_COLOR = '#facc15';  // yellow-400
+
+const CUSTOM_FILL_OPACITY = 0.35;
+// Emoji with modifiers and joiners run to several code units
+const MAX_ICON_LENGTH = 16;
+
+const SHAPES = NODE_SHAPE_OPTIONS.map(option => option.key);
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface NodeColors {
+  stroke: string;        // #rrggbb
+  fill: string;          // #rrggbb, drawn at fillOpacity
+  fillOpacity: number;
+  isCustom: boolean;     // The node's style overrides the tier colors
+}
+
+/**
+ * Parse a #rrggbb color into 0–1 channels.
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  return [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255) as [number, number, number];
+}
+
+/**
+ * A #rrggbb color as a CSS rgba() with the given opacity.
+ */
+export function hexToRgba(hex: string, alpha: number): string {
+  const [r, g, b] = hexToRgb(hex).map(value => Math.round(value * 255));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * Border and fill colors for a node: its own colors where set, the theme's tier colors otherwise.
+ */
+export function getNodeColors(node: Node, nodes: Map<string, Node>, theme: ThemeDefinition): NodeColors {
+  const { borderColor, fillColor } = node.style ?? {};
+  const stroke = borderColor ?? getNodeColorInfo(node.id, nodes, theme).strokeColor;
+  return {
+    stroke,
+    fill: fillColor ?? stroke,
+    fillOpacity: fillColor ? CUSTOM_FILL_OPACITY : theme.fillOpacity,
+    isCustom: Boolean(borderColor || fillColor),
+  };
+}
+
+/**
+ * Keep only valid style fields; defaults (rounded shape, false flags, empty icon) are dropped.
+ * Returns undefined when nothing is left. Accepts untrusted data, e.g. from files.
+ */
+export function sanitizeNodeStyle(raw: unknown): NodeStyle | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const input = raw as Record<string, unknown>;
+  const style: NodeStyle = {};
+
+  if (typeof input.borderColor === 'string' && HEX_COLOR.test(input.borderColor)) {
+    style.borderColor = input.borderColor.toLowerCase();
+  }
+  if (typeof input.fillColor === 'string' && HEX_COLOR.test(input.fillColor)) {
+    style.fillColor = input.fillColor.toLowerCase();
+  }
+  if (SHAPES.includes(input.shape as NodeShape) && input.shape !== 'rounded') {
+    style.shape = input.shape as NodeShape;
+  }
+  const icon = typeof input.icon === 'string' ? input.icon.trim() : '';
+  if (icon && icon.length <= MAX_ICON_LENGTH) style.icon = icon;
+  if (input.bold === true) style.bold = true;
+  if (input.large === true) style.large = true;
+  if (input.highlight === true) style.highlight = true;
+
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+/**
+ * Apply style changes; undefined values clear a field and null clears the whole style.
+ */
+export function mergeNodeStyle(style: NodeStyle | undefined, changes: Partial<NodeStyle> | null): NodeStyle | undefined {
+  return changes ? sanitizeNodeStyle({ ...style, ...changes }) : undefined;
+}
@@ -0,0 +1,87 @@
+/**
+ * MapItOut Search
+ *
+ * This module matches node text for the search panel:
+ * - Plain queries are case-insensitive substrings; regex queries are case-insensitive too
+ * - Matches are listed in tree order (depth-first from the root), so cycling
+ *   through results walks the map the way an outline reads
+ * - Text is split into matched / unmatched segments for highlighting
+ *
+ * Update when: Changing what search matches or how results are ordered.
+ */
+
+import type { Node, SearchState } from '../types';
+import { findRootNode } from './tree-operations';
+
+export interface SearchPattern {
+  pattern: RegExp | null;   // Null for an empty or invalid query
+  error: string | null;     // Regex syntax error, shown in the search panel
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile the search query into a global, case-insensitive pattern.
+ */
+export function buildSearchPattern({ query, useRegex }: SearchState): SearchPattern {
+  if (!query) return { pattern: null, error: null };
+  try {
+    return { pattern: new RegExp(useRegex ? query : escapeRegExp(query), 'gi'), error: null };
+  } catch (error) {
+    return { pattern: null, error: error instanceof Error ? error.message : 'Invalid regular expression' };
+  }
+}
+
+/**
+ * Whether the pattern matches anywhere in the text (global patterns keep state, so reset it first).
+ */
+export function textMatches(text: string, pattern: RegExp): boolean {
+  pattern.lastIndex = 0;
+  return pattern.test(text);
+}
+
+/**
+ * Ids of nodes whose text matches, in tree order.
+ */
+export function findMatchingNodes(nodes: Map<string, Node>, pattern: RegExp | null): string[] {
+  const root = findRootNode(nodes);
+  if (!pattern || !root) return [];
+
+  const matches: string[] = [];
+  const visit = (id: string) => {
+    const node = nodes.get(id);
+    if (!node) return;
+    if (textMatches(node.text, pattern)) matches.push(id);
+    node.children.forEach(visit);
+  };
+  visit(root.id);
+  return matches;
+}
+
+/**
+ * Split text into alternating unmatched and matched segments.
+ */
+export function splitByPattern(text: string, pattern: RegExp): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  pattern.lastIndex = 0;
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match[0].length === 0) {
+      // Step over empty matches so the loop always advances
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > last) segments.push({ text: text.slice(last, match.index), match: false });
+    segments.push({ text: match[0], match: true });
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
@@ -0,0 +1,86 @@
+/**
+ * MapItOut Spatial Navigation
+ *
+ * This module picks the node an arrow key moves to, from the rendered positions:
+ * - Candidates are the nodes whose centers lie in the pressed direction
+ * - The closest wins, with sideways misalignment costing extra distance
+ * - In tree layouts, moves across the sibling axis stay within the same rank,
+ *   and moves along the parent→child axis favor the node's own parent and children
+ * - Moving along the parent→child axis away from the root, a remembered child
+ *   (the one you last came up from) wins when it's in that direction
+ *
+ * Update when: Tuning arrow-key navigation or supporting new layout orientations.
+ */
+
+import type { Node, Position } from '../types';
+import { findRootNode } from './tree-operations';
+
+export type NavigationDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface NavigationOptions {
+  depthAxis: 'x' | 'y' | null;        // Parent→child axis of the layout; null for radial-style layouts
+  rememberedChildId?: string | null;  // Child to return to when moving back down the tree
+}
+
+// Sideways misalignment counts this many times its distance
+const ORTHOGONAL_WEIGHT = 2;
+// Moving between siblings strongly prefers staying in the same rank
+const SAME_RANK_WEIGHT = 4;
+// Parent and children get their score scaled by this along the depth axis
+const RELATIVE_FACTOR = 0.5;
+// Centers closer than this along the direction don't count as "in that direction"
+const MIN_OFFSET = 1;
+
+const AXIS: Record<NavigationDirection, { axis: 'x' | 'y'; sign: 1 | -1 }> = {
+  up: { axis: 'y', sign: -1 },
+  down: { axis: 'y', sign: 1 },
+  left: { axis: 'x', sign: -1 },
+  right: { axis: 'x', sign: 1 },
+};
+
+/**
+ * The node to move to from `fromId` in a direction, or null if there's none that way.
+ */
+export function findNodeInDirection(
+  nodes: Map<string, Node>,
+  positions: Map<string, Position>,
+  fromId: string,
+  direction: NavigationDirection,
+  { depthAxis, rememberedChildId = null }: NavigationOptions
+): string | null {
+  const from = positions.get(fromId);
+  const node = nodes.get(fromId);
+  if (!from || !node) return null;
+
+  const { axis, sign } = AXIS[direction];
+  const crossAxis = axis === 'x' ? 'y' : 'x';
+  const alongDepth = depthAxis === axis;
+  const sidewaysWeight = depthAxis && !alongDepth ? SAME_RANK_WEIGHT : ORTHOGONAL_WEIGHT;
+  const isRelative = (id: string) => id === node.parent || node.children.includes(id);
+  // Only moves back down the tree return to the remembered child, not moves across a rank
+  const root = findRootNode(nodes);
+  const rootPosition = root ? positions.get(root.id) : undefined;
+  const awayFromRoot = !rootPosition || (from[axis] - rootPosition[axis]) * sign >= 0;
+  // A child that has since been moved elsewhere is no longer one to return to
+  const preferRemembered = alongDepth && awayFromRoot
+    && rememberedChildId !== null && node.children.includes(rememberedChildId);
+
+  let bestId: string | null = null;
+  let bestScore = Infinity;
+  for (const [id, position] of positions) {
+    if (id === fromId) continue;
+    const offset = (position[axis] - from[axis]) * sign;
+    if (offset < MIN_OFFSET) continue;
+
+    if (preferRemembered && id === rememberedChildId) return id;
+
+    let score = offset + sidewaysWeight * Math.abs(position[crossAxis] - from[crossAxis]);
+    if (alongDepth && isRelative(id)) score *= RELATIVE_FACTOR;
+    if (score < bestScore) {
+      bestScore = score;
+      bestId = id;
+    }
+  }
+
+  return bestId;
+}
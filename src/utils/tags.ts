@@ -0,0 +1,98 @@
+/**
+ * MapItOut Tags
+ *
+ * This module handles node tags: short labels such as `owner:alice` or `blocked`
+ * that classify nodes without touching their text.
+ * - Tags are single words (spaces become dashes) without `#` or commas; a node
+ *   can't have the same tag twice in different case
+ * - Each tag gets a stable chip color picked from its name
+ * - The tag filter shows only nodes with any of the selected tags, plus their
+ *   ancestors for context; tags no node has any more are ignored
+ *
+ * Update when: Changing what a tag may contain, tag colors, or how the tag filter matches.
+ */
+
+import type { Node, TagCount } from '../types';
+import { pruneToNodes } from './tree-operations';
+
+export const MAX_TAG_LENGTH = 40;
+
+// Tailwind 600 shades, dark enough for white chip text
+export const TAG_COLORS = [
+  '#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#0d9488',
+  '#0284c7', '#4f46e5', '#9333ea', '#db2777', '#475569',
+];
+
+/**
+ * The tag for what the user typed, or null if nothing usable is left.
+ */
+export function normalizeTag(input: string): string | null {
+  const tag = input.trim().replace(/^#+/, '').replace(/[\s,#]+/g, '-').replace(/^-+|-+$/g, '');
+  return tag && tag.length <= MAX_TAG_LENGTH ? tag : null;
+}
+
+/**
+ * Keep only valid tags, dropping duplicates (ignoring case). Returns undefined when none are left.
+ * Accepts untrusted data, e.g. from files.
+ */
+export function sanitizeTags(raw: unknown): string[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const tags: string[] = [];
+  const seen = new Set<string>();
+
+  raw.forEach(entry => {
+    const tag = typeof entry === 'string' ? normalizeTag(entry) : null;
+    if (!tag || seen.has(tag.toLowerCase())) return;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  });
+
+  return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Chip color for a tag, the same for every node and every session.
+ */
+export function getTagColor(tag: string): string {
+  let hash = 0;
+  for (const char of tag.toLowerCase()) {
+    hash = (hash * 31 + char.codePointAt(0)!) | 0;
+  }
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
+}
+
+/**
+ * Every tag in the map with the number of nodes that have it, sorted by name.
+ */
+export function collectTags(nodes: Map<string, Node>): TagCount[] {
+  const counts = new Map<string, TagCount>();
+  nodes.forEach(node => {
+    node.tags?.forEach(tag => {
+      const key = tag.toLowerCase();
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { tag, count: 1 });
+    });
+  });
+  return Array.from(counts.values()).sort((a, b) => a.tag.localeCompare(b.tag, undefined, { sensitivity: 'base' }));
+}
+
+/**
+ * Ids of the nodes that have any of the tags (ignoring case).
+ */
+export function findTaggedNodes(nodes: Map<string, Node>, tags: string[]): string[] {
+  const wanted = new Set(tags.map(tag => tag.toLowerCase()));
+  return Array.from(nodes.values())
+    .filter(node => node.tags?.some(tag => wanted.has(tag.toLowerCase())))
+    .map(node => node.id);
+}
+
+/**
+ * The nodes the tag filter shows: tagged nodes and their ancestors, or all
+ * nodes (the same Map) when no selected tag is in use.
+ */
+export function filterNodesByTags(nodes: Map<string, Node>, tags: string[]): Map<string, Node> {
+  if (tags.length === 0) return nodes;
+  const ids = findTaggedNodes(nodes, tags);
+  return ids.length > 0 ? pruneToNodes(nodes, ids) : nodes;
+}
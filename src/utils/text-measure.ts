@@ -0,0 +1,164 @@
+/**
+ * MapItOut Text Measurement
+ *
+ * This module measures text with the real font via a 2D canvas and wraps it
+ * the way the browser draws `white-space: pre-wrap; overflow-wrap: break-word`:
+ * - Explicit line breaks first, then greedy word wrapping at the max width
+ * - Words wider than a whole line are split between characters
+ * - Widths and wrapped layouts are cached per font (and max width), since
+ *   layouts measure every node on every change
+ * - When a web font finishes loading, the caches are dropped and the font
+ *   generation goes up, so layouts that depend on it are recalculated
+ * Without a canvas (e.g. outside the browser) widths fall back to an average glyph estimate.
+ *
+ * Update when: Changing how text is wrapped or measured.
+ */
+
+export interface TextLayoutOptions {
+  font: string;         // CSS font shorthand, e.g. '500 14px Inter, sans-serif'
+  fontSize: number;     // Used by the fallback estimate
+  lineHeight: number;
+  maxWidth: number;     // Lines wrap at this width
+}
+
+export interface TextLayout {
+  lines: string[];
+  width: number;        // Widest line
+  height: number;       // All lines
+}
+
+// Caches are simply dropped when they grow past this, which only happens with huge maps
+const MAX_CACHE_ENTRIES = 10000;
+// Average glyph width relative to font size, for the no-canvas fallback
+const AVERAGE_CHAR_WIDTH = 0.54;
+
+const widthCache = new Map<string, number>();
+const layoutCache = new Map<string, TextLayout>();
+
+let fontGeneration = 0;
+const fontListeners = new Set<() => void>();
+
+let context: CanvasRenderingContext2D | null | undefined;
+
+const getContext = (): CanvasRenderingContext2D | null => {
+  if (context === undefined) {
+    context = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+  }
+  return context;
+};
+
+const remember = <T>(cache: Map<string, T>, key: string, value: T): T => {
+  if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+  cache.set(key, value);
+  return value;
+};
+
+/**
+ * Forget all measurements, e.g. after a web font finishes loading.
+ */
+export function clearTextMeasureCache() {
+  widthCache.clear();
+  layoutCache.clear();
+}
+
+/**
+ * Counts font loads that changed measurements; layouts cached across renders should depend on it.
+ */
+export function getFontGeneration(): number {
+  return fontGeneration;
+}
+
+/**
+ * Call `listener` after each font load that changed measurements. Returns an unsubscribe function.
+ */
+export function subscribeToFontChanges(listener: () => void): () => void {
+  fontListeners.add(listener);
+  return () => {
+    fontListeners.delete(listener);
+  };
+}
+
+// Fonts that load late change every measurement
+if (typeof document !== 'undefined' && document.fonts) {
+  document.fonts.addEventListener('loadingdone', () => {
+    clearTextMeasureCache();
+    fontGeneration++;
+    fontListeners.forEach(listener => listener());
+  });
+}
+
+/**
+ * Width of a single line of text in the given font.
+ */
+export function measureTextWidth(text: string, font: string, fontSize: number): number {
+  const key = `${font}\n${text}`;
+  const cached = widthCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const ctx = getContext();
+  let width: number;
+  if (ctx) {
+    ctx.font = font;
+    width = ctx.measureText(text).width;
+  } else {
+    width = text.length * fontSize * AVERAGE_CHAR_WIDTH;
+  }
+  return remember(widthCache, key, width);
+}
+
+/**
+ * Break a word that can't fit on a line into line-sized pieces.
+ */
+function splitLongWord(word: string, fits: (text: string) => boolean): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && !fits(piece + char)) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += char;
+  }
+  pieces.push(piece);
+  return pieces;
+}
+
+/**
+ * Wrap text into lines no wider than `maxWidth` and measure the result.
+ */
+export function layoutText(text: string, options: TextLayoutOptions): TextLayout {
+  const { font, fontSize, lineHeight, maxWidth } = options;
+  const key = `${font}\n${maxWidth}\n${lineHeight}\n${text}`;
+  const cached = layoutCache.get(key);
+  if (cached) return cached;
+
+  const widthOf = (line: string) => measureTextWidth(line, font, fontSize);
+  const fits = (line: string) => widthOf(line) <= maxWidth;
+  const lines: string[] = [];
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      if (fits(word)) {
+        line = word;
+        return;
+      }
+      const pieces = splitLongWord(word, fits);
+      lines.push(...pieces.slice(0, -1));
+      line = pieces[pieces.length - 1];
+    });
+    lines.push(line);
+  });
+
+  return remember(layoutCache, key, {
+    lines,
+    width: Math.max(...lines.map(widthOf)),
+    height: lines.length * lineHeight,
+  });
+}
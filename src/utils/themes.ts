@@ -0,0 +1,78 @@
+/**
+ * MapItOut Themes
+ *
+ * This module holds the theme registry. A theme is plain data: background,
+ * node text color and font, tier palette (node borders and fills by depth),
+ * and edge color. The theme is chosen per map; the node components, the edge
+ * canvas and the export scene all read their colors from it.
+ *
+ * Update when: Adding themes or changing what a theme controls.
+ */
+
+import type { ThemeDefinition, ThemeKey } from '../types';
+import { NODE_FONT_FAMILY } from './node-metrics';
+
+export const DEFAULT_THEME: ThemeKey = 'dark';
+
+const themeRegistry = new Map<ThemeKey, ThemeDefinition>();
+
+/**
+ * Register a theme so maps can use it.
+ * Registering an existing key replaces that theme.
+ */
+export function registerTheme(definition: ThemeDefinition) {
+  themeRegistry.set(definition.key, definition);
+}
+
+export function getThemes(): ThemeDefinition[] {
+  return Array.from(themeRegistry.values());
+}
+
+/**
+ * Look up a theme, falling back to the dark theme for unknown keys (e.g. from old saves)
+ */
+export function getTheme(key: ThemeKey): ThemeDefinition {
+  return themeRegistry.get(key) ?? themeRegistry.get(DEFAULT_THEME)!;
+}
+
+/**
+ * Whether a value (e.g. from a file) names a registered theme.
+ */
+export function isThemeKey(value: unknown): value is ThemeKey {
+  return themeRegistry.has(value as ThemeKey);
+}
+
+// H1 and H2 share a color, deeper tiers each get their own
+registerTheme({
+  key: 'dark', label: 'Dark', description: 'Tinted nodes on slate, the classic look',
+  background: '#0f172a', textColor: '#ffffff', textShadow: true,
+  // orange, orange, red, blue, green, purple, amber (Tailwind 500s)
+  tierColors: ['#f97316', '#f97316', '#ef4444', '#3b82f6', '#22c55e', '#a855f7', '#f59e0b'],
+  edgeColor: null, fillOpacity: 0.1, fontFamily: NODE_FONT_FAMILY,
+});
+registerTheme({
+  key: 'light', label: 'Light', description: 'Dark text on a near-white canvas',
+  background: '#f8fafc', textColor: '#0f172a', textShadow: false,
+  // The same hues in Tailwind 600s, for contrast on white
+  tierColors: ['#ea580c', '#ea580c', '#dc2626', '#2563eb', '#16a34a', '#9333ea', '#d97706'],
+  edgeColor: null, fillOpacity: 0.12, fontFamily: NODE_FONT_FAMILY,
+});
+registerTheme({
+  key: 'high-contrast', label: 'High contrast', description: 'Bright outlines on black, no tinted fills',
+  background: '#000000', textColor: '#ffffff', textShadow: false,
+  tierColors: ['#ffffff', '#ffffff', '#ffff00', '#00ffff', '#ff80ff', '#80ff80', '#ffa500'],
+  edgeColor: null, fillOpacity: 0, fontFamily: 'Verdana, Inter, system-ui, sans-serif',
+});
+registerTheme({
+  key: 'print', label: 'Print', description: 'Black and grays on white, with a serif font',
+  background: '#ffffff', textColor: '#000000', textShadow: false,
+  tierColors: ['#000000', '#000000', '#404040', '#595959', '#737373', '#8c8c8c'],
+  edgeColor: '#737373', fillOpacity: 0, fontFamily: "Georgia, 'Times New Roman', serif",
+});
+registerTheme({
+  key: 'colorblind', label: 'Colorblind-safe', description: 'Okabe–Ito palette, distinguishable with any color vision',
+  background: '#111827', textColor: '#ffffff', textShadow: true,
+  // orange, orange, sky blue, bluish green, yellow, reddish purple, vermillion
+  tierColors: ['#e69f00', '#e69f00', '#56b4e9', '#009e73', '#f0e442', '#cc79a7', '#d55e00'],
+  edgeColor: null, fillOpacity: 0.15, fontFamily: NODE_FONT_FAMILY,
+});
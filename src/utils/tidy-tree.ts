@@ -0,0 +1,126 @@
+/**
+ * MapItOut Tidy Tree
+ *
+ * This module implements a Reingold–Tilford style tidy tree layout:
+ * - Subtrees are laid out bottom-up and pushed apart using their contours,
+ *   so neighbouring subtrees never overlap
+ * - Parents are centered over their first and last child
+ * - Real node sizes are used for both sibling spacing and level spacing
+ *
+ * It works along abstract "breadth" (sibling) and "depth" (generation) axes,
+ * so the same algorithm serves top-down and left-to-right trees.
+ *
+ * Update when: Changing tidy tree spacing rules or supporting new orientations.
+ */
+
+import type { Node, NodeMeasureOptions, Position } from '../types';
+import { getNodeSize } from './node-metrics';
+import { getVisibleChildren } from './tree-operations';
+
+export interface TidyTreeOptions {
+  orientation: 'vertical' | 'horizontal'; // vertical: root on top; horizontal: root on the left
+  siblingGap: number;                     // Minimum gap between neighbouring subtrees
+  levelGap: number;                       // Gap between consecutive generations
+  measure: NodeMeasureOptions;            // Font and wrap width node text is measured with
+}
+
+interface Contour {
+  left: number[];   // Leftmost breadth extent per depth, relative to the subtree root
+  right: number[];  // Rightmost breadth extent per depth, relative to the subtree root
+}
+
+/**
+ * Lay out the visible tree under rootId, with the root centered at origin.
+ */
+export function calculateTidyTree(
+  nodes: Map<string, Node>,
+  rootId: string,
+  origin: { x: number; y: number },
+  options: TidyTreeOptions
+): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const root = nodes.get(rootId);
+  if (!root) return positions;
+
+  const vertical = options.orientation === 'vertical';
+  const sizes = new Map<string, { breadth: number; depth: number }>();
+  const levelExtents: number[] = [];
+  // Offset of each node's center from its parent's center along the breadth axis
+  const offsets = new Map<string, number>();
+
+  // Measure nodes and record the largest depth extent per generation
+  const measure = (node: Node, level: number) => {
+    const size = getNodeSize(node, options.measure);
+    const breadth = vertical ? size.width : size.height;
+    const depth = vertical ? size.height : size.width;
+    sizes.set(node.id, { breadth, depth });
+    levelExtents[level] = Math.max(levelExtents[level] ?? 0, depth);
+    getVisibleChildren(nodes, node).forEach(child => measure(child, level + 1));
+  };
+  measure(root, 0);
+
+  // Post-order: place each child subtree as close to its left neighbour as the contours allow
+  const layoutSubtree = (node: Node): Contour => {
+    const { breadth } = sizes.get(node.id)!;
+    const children = getVisibleChildren(nodes, node);
+    const contour: Contour = { left: [-breadth / 2], right: [breadth / 2] };
+    if (children.length === 0) return contour;
+
+    const placements: number[] = [];
+    const merged: Contour = { left: [], right: [] };
+
+    children.forEach((child, i) => {
+      const childContour = layoutSubtree(child);
+      let shift = 0;
+      if (i > 0) {
+        shift = -Infinity;
+        const sharedDepth = Math.min(merged.right.length, childContour.left.length);
+        for (let d = 0; d < sharedDepth; d++) {
+          shift = Math.max(shift, merged.right[d] - childContour.left[d] + options.siblingGap);
+        }
+      }
+      placements.push(shift);
+
+      childContour.left.forEach((value, d) => {
+        merged.left[d] = Math.min(merged.left[d] ?? Infinity, value + shift);
+      });
+      childContour.right.forEach((value, d) => {
+        merged.right[d] = Math.max(merged.right[d] ?? -Infinity, value + shift);
+      });
+    });
+
+    // Center the parent over its first and last child
+    const center = (placements[0] + placements[placements.length - 1]) / 2;
+    children.forEach((child, i) => offsets.set(child.id, placements[i] - center));
+    merged.left.forEach(value => contour.left.push(value - center));
+    merged.right.forEach(value => contour.right.push(value - center));
+
+    return contour;
+  };
+  layoutSubtree(root);
+
+  // Center line of each generation along the depth axis
+  const levelCenters: number[] = [0];
+  for (let level = 1; level < levelExtents.length; level++) {
+    levelCenters[level] = levelCenters[level - 1]
+      + levelExtents[level - 1] / 2 + options.levelGap + levelExtents[level] / 2;
+  }
+
+  // Pre-order: accumulate offsets into absolute positions
+  const place = (node: Node, breadthPos: number, level: number) => {
+    const { breadth, depth } = sizes.get(node.id)!;
+    const depthPos = levelCenters[level];
+    positions.set(node.id, {
+      x: vertical ? origin.x + breadthPos : origin.x + depthPos,
+      y: vertical ? origin.y + depthPos : origin.y + breadthPos,
+      width: vertical ? breadth : depth,
+      height: vertical ? depth : breadth,
+    });
+    getVisibleChildren(nodes, node).forEach(child => {
+      place(child, breadthPos + (offsets.get(child.id) ?? 0), level + 1);
+    });
+  };
+  place(root, 0, 0);
+
+  return positions;
+}
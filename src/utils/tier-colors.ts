@@ -2,12 +2,13 @@
  * MapItOut Tier-based Color System
  * 
  * This module provides utilities for calculating node tiers/depths and mapping them to colors.
- * Implements the tier-based color scheme where H1,H2 share colors and H3+ have unique colors.
+ * The colors come from the map's theme (see themes.ts); in the built-in themes H1 and H2
+ * share a color and H3+ each have their own.
  * 
- * Update when: Modifying tier calculation logic or changing color schemes.
+ * Update when: Modifying tier calculation logic or how tiers map to theme palettes.
  */
 
-import type { Node } from '../types';
+import type { Node, ThemeDefinition } from '../types';
 
 /**
  * Calculate the tier/depth of a node in the hierarchy.
@@ -32,78 +33,21 @@ export function calculateNodeTier(nodeId: string, nodes: Map<string, Node>): num
 }
 
 /**
- * Get color scheme for a node based on its tier.
- * H1 (tier 0) and H2 (tier 1) share the same color scheme.
- * H3+ (tier 2+) each get their own unique color.
+ * The theme's color for a tier, as #rrggbb. Tiers beyond the palette use its last color.
  */
-export function getTierColorScheme(tier: number): {
-  borderColor: string;
-  backgroundColor: string;
-  cssClass: string;
-} {
-  // H1 and H2 share the same color (orange)
-  if (tier === 0 || tier === 1) {
-    return {
-      borderColor: 'border-orange-500',
-      backgroundColor: 'bg-orange-500/10',
-      cssClass: 'node-tier-h1h2'
-    };
-  }
-  
-  // H3+ each get their own color
-  const colorSchemes = [
-    // Tier 2 (H3) - Red
-    {
-      borderColor: 'border-red-500',
-      backgroundColor: 'bg-red-500/10',
-      cssClass: 'node-tier-h3'
-    },
-    // Tier 3 (H4) - Blue
-    {
-      borderColor: 'border-blue-500',
-      backgroundColor: 'bg-blue-500/10',
-      cssClass: 'node-tier-h4'
-    },
-    // Tier 4 (H5) - Green
-    {
-      borderColor: 'border-green-500',
-      backgroundColor: 'bg-green-500/10',
-      cssClass: 'node-tier-h5'
-    },
-    // Tier 5 (H6) - Purple
-    {
-      borderColor: 'border-purple-500',
-      backgroundColor: 'bg-purple-500/10',
-      cssClass: 'node-tier-h6'
-    },
-    // Tier 6+ - Amber
-    {
-      borderColor: 'border-amber-500',
-      backgroundColor: 'bg-amber-500/10',
-      cssClass: 'node-tier-h7plus'
-    }
-  ];
-  
-  // For tier 2+, map to color schemes (tier 2 = index 0, tier 3 = index 1, etc.)
-  const schemeIndex = tier - 2;
-  
-  // If we go beyond our defined schemes, use the last one (amber)
-  if (schemeIndex >= colorSchemes.length) {
-    return colorSchemes[colorSchemes.length - 1];
-  }
-  
-  return colorSchemes[schemeIndex];
+export function getTierColor(tier: number, theme: ThemeDefinition): string {
+  const { tierColors } = theme;
+  return tierColors[Math.min(tier, tierColors.length - 1)];
 }
 
 /**
- * Get the complete color information for a node based on its position in the hierarchy.
+ * Get the tier and tier color of a node based on its position in the hierarchy.
  */
-export function getNodeColorInfo(nodeId: string, nodes: Map<string, Node>) {
+export function getNodeColorInfo(nodeId: string, nodes: Map<string, Node>, theme: ThemeDefinition) {
   const tier = calculateNodeTier(nodeId, nodes);
-  const colorScheme = getTierColorScheme(tier);
-  
+
   return {
     tier,
-    ...colorScheme
+    strokeColor: getTierColor(tier, theme),
   };
-} 
\ No newline at end of file
+}
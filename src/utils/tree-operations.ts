@@ -0,0 +1,220 @@
+/**
+ * MapItOut Tree Operations
+ *
+ * This module provides pure helpers for restructuring the node tree.
+ * Every function returns a new nodes Map and leaves its input untouched,
+ * so the results can be committed straight to the map store's history.
+ *
+ * Update when: Adding new structural operations or changing move/delete rules.
+ */
+
+import type { Node } from '../types';
+
+/**
+ * Find the root node (the one without a parent).
+ */
+export function findRootNode(nodes: Map<string, Node>): Node | undefined {
+  return Array.from(nodes.values()).find(node => node.parent === null);
+}
+
+/**
+ * Depth of every node reachable from the root (root = 0).
+ */
+export function getNodeDepths(nodes: Map<string, Node>): Map<string, number> {
+  const depths = new Map<string, number>();
+  const root = findRootNode(nodes);
+  const visit = (id: string, depth: number) => {
+    const node = nodes.get(id);
+    if (!node) return;
+    depths.set(id, depth);
+    node.children.forEach(childId => visit(childId, depth + 1));
+  };
+  if (root) visit(root.id, 0);
+  return depths;
+}
+
+/**
+ * Check whether nodeId sits somewhere below ancestorId.
+ */
+export function isDescendant(nodes: Map<string, Node>, ancestorId: string, nodeId: string): boolean {
+  let current = nodes.get(nodeId);
+  while (current?.parent) {
+    if (current.parent === ancestorId) return true;
+    current = nodes.get(current.parent);
+  }
+  return false;
+}
+
+/**
+ * Collect a node and all of its descendants, parents before children.
+ */
+export function collectSubtree(nodes: Map<string, Node>, nodeId: string): string[] {
+  const result: string[] = [];
+  const visit = (id: string) => {
+    const node = nodes.get(id);
+    if (!node) return;
+    result.push(id);
+    node.children.forEach(visit);
+  };
+  visit(nodeId);
+  return result;
+}
+
+/**
+ * Count the descendants of a node (not including the node itself).
+ */
+export function countDescendants(nodes: Map<string, Node>, nodeId: string): number {
+  return Math.max(0, collectSubtree(nodes, nodeId).length - 1);
+}
+
+/**
+ * Children that should be laid out and rendered: none while the node is collapsed.
+ */
+export function getVisibleChildren(nodes: Map<string, Node>, node: Node): Node[] {
+  if (node.metadata.collapsed) return [];
+  return node.children.map(id => nodes.get(id)).filter(Boolean) as Node[];
+}
+
+/**
+ * Return the node itself if visible, otherwise its closest visible ancestor
+ * (the outermost collapsed ancestor hiding it).
+ */
+export function findVisibleAncestor(nodes: Map<string, Node>, nodeId: string): string {
+  let visibleId = nodeId;
+  let current = nodes.get(nodeId);
+  while (current?.parent) {
+    const parent = nodes.get(current.parent);
+    if (!parent) break;
+    if (parent.metadata.collapsed) visibleId = parent.id;
+    current = parent;
+  }
+  return visibleId;
+}
+
+/**
+ * Expand every collapsed ancestor of the given nodes so they become visible.
+ * Returns the input Map unchanged if nothing was hidden.
+ */
+export function expandAncestors(nodes: Map<string, Node>, nodeIds: string[]): Map<string, Node> {
+  let newNodes = nodes;
+  nodeIds.forEach(nodeId => {
+    let parentId = nodes.get(nodeId)?.parent ?? null;
+    while (parentId) {
+      const parent = newNodes.get(parentId);
+      if (!parent) break;
+      if (parent.metadata.collapsed) {
+        if (newNodes === nodes) newNodes = new Map(nodes);
+        newNodes.set(parent.id, { ...parent, metadata: { ...parent.metadata, collapsed: false } });
+      }
+      parentId = parent.parent;
+    }
+  });
+  return newNodes;
+}
+
+/**
+ * Keep only the given nodes and their ancestors, e.g. to show filter results in context.
+ * Kept ancestors are expanded and list only kept children; everything else is left out.
+ */
+export function pruneToNodes(nodes: Map<string, Node>, nodeIds: string[]): Map<string, Node> {
+  const keep = new Set<string>();
+  nodeIds.forEach(nodeId => {
+    let id: string | null = nodes.has(nodeId) ? nodeId : null;
+    while (id && !keep.has(id)) {
+      keep.add(id);
+      id = nodes.get(id)?.parent ?? null;
+    }
+  });
+
+  const pruned = new Map<string, Node>();
+  keep.forEach(id => {
+    const node = nodes.get(id)!;
+    const children = node.children.filter(childId => keep.has(childId));
+    pruned.set(id, children.length === node.children.length && !node.metadata.collapsed
+      ? node
+      : { ...node, children, metadata: { ...node.metadata, collapsed: false } });
+  });
+  return pruned;
+}
+
+/**
+ * Remove a node and its descendants, detaching it from its parent.
+ */
+export function removeSubtree(nodes: Map<string, Node>, nodeId: string): Map<string, Node> {
+  const node = nodes.get(nodeId);
+  if (!node) return nodes;
+
+  const newNodes = new Map(nodes);
+  collectSubtree(nodes, nodeId).forEach(id => newNodes.delete(id));
+
+  const parent = node.parent ? newNodes.get(node.parent) : undefined;
+  if (parent) {
+    newNodes.set(parent.id, {
+      ...parent,
+      children: parent.children.filter(id => id !== nodeId),
+      metadata: { ...parent.metadata, modified: Date.now() },
+    });
+  }
+
+  return newNodes;
+}
+
+/**
+ * A node can move under newParentId unless it's the root, the target is missing,
+ * or the target is the node itself or one of its descendants (which would form a cycle).
+ */
+export function canMoveNode(nodes: Map<string, Node>, nodeId: string, newParentId: string): boolean {
+  const node = nodes.get(nodeId);
+  if (!node || node.parent === null) return false;
+  if (!nodes.has(newParentId)) return false;
+  if (nodeId === newParentId) return false;
+  return !isDescendant(nodes, nodeId, newParentId);
+}
+
+/**
+ * Move a node (with its subtree) to position `index` among newParentId's children.
+ * The index refers to the children list after the node has been taken out,
+ * and is clamped to the valid range. Returns null if the move is invalid.
+ * A collapsed new parent is expanded so the moved node stays visible.
+ */
+export function moveNodeInTree(
+  nodes: Map<string, Node>,
+  nodeId: string,
+  newParentId: string,
+  index: number
+): Map<string, Node> | null {
+  if (!canMoveNode(nodes, nodeId, newParentId)) return null;
+
+  const node = nodes.get(nodeId)!;
+  const now = Date.now();
+  const newNodes = new Map(nodes);
+
+  // Detach from the old parent
+  const oldParent = newNodes.get(node.parent!);
+  if (oldParent) {
+    newNodes.set(oldParent.id, {
+      ...oldParent,
+      children: oldParent.children.filter(id => id !== nodeId),
+      metadata: { ...oldParent.metadata, modified: now },
+    });
+  }
+
+  // Attach to the new parent (read after detaching, in case it's the same node)
+  const newParent = newNodes.get(newParentId)!;
+  const children = [...newParent.children];
+  const clampedIndex = Math.max(0, Math.min(index, children.length));
+  children.splice(clampedIndex, 0, nodeId);
+  newNodes.set(newParentId, {
+    ...newParent,
+    children,
+    metadata: { ...newParent.metadata, modified: now, collapsed: false },
+  });
+
+  newNodes.set(nodeId, {
+    ...node,
+    parent: newParentId,
+    metadata: { ...node.metadata, modified: now },
+  });
+
+  return newNodes;
+}
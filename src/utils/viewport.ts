@@ -0,0 +1,89 @@
+/**
+ * MapItOut Viewport Math
+ *
+ * This module contains the pure math behind panning and zooming.
+ * A view maps layout coordinates to screen coordinates as
+ * screen = layout * zoom + offset, for both the edge canvas and the node container.
+ *
+ * Update when: Changing zoom limits, zoom steps, or fit behavior.
+ */
+
+import type { Bounds, Position, ViewTransform } from '../types';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+export const ZOOM_STEP = 1.2;
+const FIT_PADDING = 60;
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Convert a screen point (relative to the canvas) to layout coordinates.
+ */
+export function screenToMap(view: ViewTransform, point: { x: number; y: number }): { x: number; y: number } {
+  return { x: (point.x - view.x) / view.zoom, y: (point.y - view.y) / view.zoom };
+}
+
+/**
+ * Zoom by a factor while keeping the layout point under `anchor` (screen coordinates) fixed.
+ */
+export function zoomAtPoint(view: ViewTransform, factor: number, anchor: { x: number; y: number }): ViewTransform {
+  const zoom = clampZoom(view.zoom * factor);
+  const scale = zoom / view.zoom;
+  return {
+    zoom,
+    x: anchor.x - (anchor.x - view.x) * scale,
+    y: anchor.y - (anchor.y - view.y) * scale,
+  };
+}
+
+/**
+ * Pan so that a layout point sits in the middle of the viewport, keeping the zoom.
+ */
+export function centerViewOn(
+  view: ViewTransform,
+  target: { x: number; y: number },
+  viewportSize: { width: number; height: number }
+): ViewTransform {
+  return {
+    ...view,
+    x: viewportSize.width / 2 - target.x * view.zoom,
+    y: viewportSize.height / 2 - target.y * view.zoom,
+  };
+}
+
+/**
+ * Bounding box around a set of node positions, or null if there are none.
+ */
+export function getPositionsBounds(positions: Iterable<Position>): Bounds | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const pos of positions) {
+    minX = Math.min(minX, pos.x - pos.width / 2);
+    minY = Math.min(minY, pos.y - pos.height / 2);
+    maxX = Math.max(maxX, pos.x + pos.width / 2);
+    maxY = Math.max(maxY, pos.y + pos.height / 2);
+  }
+  if (minX === Infinity) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * View that shows the whole bounds with some padding, never zooming in past maxZoom.
+ */
+export function fitViewToBounds(
+  bounds: Bounds,
+  viewportSize: { width: number; height: number },
+  maxZoom: number = 1
+): ViewTransform {
+  const availableWidth = Math.max(1, viewportSize.width - FIT_PADDING * 2);
+  const availableHeight = Math.max(1, viewportSize.height - FIT_PADDING * 2);
+  const zoom = clampZoom(Math.min(maxZoom, availableWidth / bounds.width, availableHeight / bounds.height));
+
+  return centerViewOn(
+    { x: 0, y: 0, zoom },
+    { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 },
+    viewportSize
+  );
+}
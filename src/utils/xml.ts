@@ -0,0 +1,39 @@
+/**
+ * MapItOut XML Helpers
+ *
+ * This module escapes text for XML output and parses XML input, for the
+ * SVG exporter and the XML-based interchange formats (OPML, FreeMind).
+ *
+ * Update when: Adding XML-based formats that need more than escaping and parsing.
+ */
+
+/**
+ * Escape text for use in XML content or attribute values.
+ * Line breaks and tabs are written as character references, since XML
+ * parsers turn literal ones inside attributes into spaces.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/\r?\n/g, '&#10;')
+    .replace(/\t/g, '&#9;');
+}
+
+/**
+ * Parse an XML document, returning null if it isn't well-formed.
+ */
+export function parseXml(text: string): Document | null {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+}
+
+/**
+ * Direct children of an element with the given tag name (case-sensitive).
+ */
+export function childElements(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.tagName === tagName);
+}